@@ -0,0 +1,241 @@
+import { afterAll, afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CID } from 'multiformats/cid';
+import { computeConfigCID } from '@/services/ipfsUploader';
+import type { FetchResult } from '@/services/ipnsFetcher';
+import type { VerifiedIPNSRecord, VerifiedResolveResult } from '@/services/ipnsResolver';
+import type { uploadAndUpdateIPNS as uploadAndUpdate } from '@/services/ipnsUpdater';
+
+const LIVE_CID = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+const LIVE_CONFIG = { apiUrl: 'https://api', retries: 3 };
+
+function liveRecord(cid = LIVE_CID, sequence = 7n): VerifiedIPNSRecord {
+  return {
+    ipnsName: 'k51staging',
+    value: `/ipfs/${cid}`,
+    cid,
+    sequence,
+    validity: '2030-01-01T00:00:00.000000000Z',
+    validForMs: 1000,
+    expiresAt: Date.parse('2030-01-01T00:00:00Z'),
+    ttlMs: 60_000,
+    source: 'https://router.test'
+  };
+}
+
+const resolveVerifiedIPNS = mock(async (): Promise<VerifiedResolveResult> => ({ success: true, record: liveRecord() }));
+const fetchFromIPFS = mock(async (): Promise<FetchResult> => ({ success: true, data: LIVE_CONFIG, ipfsHash: LIVE_CID, verified: true }));
+const uploadAndUpdateIPNS = mock<typeof uploadAndUpdate>(async (config) => {
+  const cid = await computeConfigCID(config, { cidVersion: 0 });
+  return { ipfsResult: { success: true, ipfsHash: cid }, ipnsResult: { success: true, ipnsName: 'k51staging', cid, sequence: 8n } };
+});
+
+const resolver = await import('@/services/ipnsResolver');
+const fetcher = await import('@/services/ipnsFetcher');
+const updater = await import('@/services/ipnsUpdater');
+mock.module('@/services/ipnsResolver', () => ({ ...resolver, resolveVerifiedIPNS }));
+mock.module('@/services/ipnsFetcher', () => ({ ...fetcher, fetchFromIPFS }));
+mock.module('@/services/ipnsUpdater', () => ({ ...updater, uploadAndUpdateIPNS }));
+
+const { runCLI, toJSON } = await import('./variables');
+
+const directory = await mkdtemp(join(tmpdir(), 'variables-cli-'));
+const structurePath = join(directory, 'structure.json');
+const configPath = join(directory, 'config.json');
+const SECRET_VARIABLES = ['VARIABLES_STAGING_IPNS_PRIVATE_KEY', 'VARIABLES_IPNS_PRIVATE_KEY', 'VARIABLES_PINATA_JWT'];
+
+async function writeStructure(env: Record<string, unknown> = { pinningProvider: 'pinata', pinataJWT: 'jwt', cidVersion: 0 }) {
+  await writeFile(structurePath, JSON.stringify({
+    __env: env,
+    production: { ipnsPublicKey: 'k51production', ipnsPrivateKey: 'prod-key', protected: true },
+    staging: { ipnsPublicKey: 'k51staging' }
+  }));
+}
+
+function run(...args: string[]) {
+  return runCLI([...args, '--structure', structurePath]);
+}
+
+beforeEach(async () => {
+  await writeStructure();
+  await writeFile(configPath, JSON.stringify({ apiUrl: 'https://new-api', retries: 3 }));
+  process.env.VARIABLES_STAGING_IPNS_PRIVATE_KEY = 'staging-key';
+  resolveVerifiedIPNS.mockClear();
+  resolveVerifiedIPNS.mockImplementation(async () => ({ success: true, record: liveRecord() }));
+  uploadAndUpdateIPNS.mockClear();
+});
+
+afterEach(() => {
+  for (const name of SECRET_VARIABLES) delete process.env[name];
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('argument parsing', () => {
+  test.each<[string, string[], number, string | undefined, boolean]>([
+    // [case, args, exit code, error, usage shown]
+    ['no command', [], 2, 'No command given', true],
+    ['--help', ['--help'], 0, undefined, true],
+    ['an unknown command', ['deploy', 'staging'], 2, 'Unknown command "deploy"', true],
+    ['a missing environment', ['resolve'], 2, 'resolve needs an environment name', false],
+    ['an unknown environment', ['resolve', 'qa'], 2, `No environment "qa" in ${structurePath}`, false],
+    ['a missing config file', ['diff', 'staging'], 2, 'diff needs a config file', false]
+  ])('%s', async (_, args, exitCode, error, showUsage) => {
+    const result = await runCLI(args.length && args[0] !== '--help' ? [...args, '-s', structurePath] : args);
+
+    expect(result.exitCode).toBe(exitCode);
+    expect(result.output.error).toBe(error);
+    expect(!!result.showUsage).toBe(showUsage);
+  });
+
+  test('rejects an unknown option', async () => {
+    const result = await run('resolve', 'staging', '--dry-run');
+
+    expect(result).toMatchObject({ exitCode: 2, showUsage: true, output: { ok: false } });
+  });
+});
+
+describe('resolve', () => {
+  test('prints the verified record with the sequence as a decimal string', async () => {
+    const result = await run('resolve', 'staging');
+
+    expect(result.exitCode).toBe(0);
+    expect(JSON.parse(toJSON(result.output))).toEqual({
+      ok: true,
+      environment: 'staging',
+      record: {
+        ipnsName: 'k51staging',
+        cid: LIVE_CID,
+        sequence: '7',
+        expiresAt: '2030-01-01T00:00:00.000Z',
+        ttlMs: 60_000,
+        source: 'https://router.test'
+      }
+    });
+  });
+
+  test('fails when the record cannot be verified', async () => {
+    resolveVerifiedIPNS.mockImplementation(async () => ({ success: false, error: 'All routers failed' }));
+
+    expect(await run('resolve', 'staging')).toMatchObject({ exitCode: 2, output: { ok: false, error: 'Could not resolve staging: All routers failed' } });
+  });
+});
+
+describe('diff', () => {
+  test('exits 0 for an identical config', async () => {
+    await writeFile(configPath, JSON.stringify(LIVE_CONFIG));
+
+    expect(await run('diff', 'staging', configPath)).toMatchObject({ exitCode: 0, output: { identical: true, changes: [] } });
+  });
+
+  test('exits 1 and lists the changes', async () => {
+    const result = await run('diff', 'staging', configPath);
+
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toMatchObject({
+      identical: false,
+      summary: { modified: 1, total: 1 },
+      changes: [{ type: 'modified', path: ['apiUrl'], before: 'https://api', after: 'https://new-api' }]
+    });
+  });
+});
+
+describe('publish', () => {
+  test('publishes on top of the live record', async () => {
+    const result = await run('publish', 'staging', configPath);
+
+    expect(result).toMatchObject({ exitCode: 0, output: { ok: true, unchanged: false, sequence: 8n, previousCid: LIVE_CID } });
+    expect(uploadAndUpdateIPNS.mock.calls[0][5]).toMatchObject({ base: { cid: LIVE_CID, sequence: 7n } });
+  });
+
+  test('requires --confirm for a protected environment', async () => {
+    const result = await run('publish', 'production', configPath);
+
+    expect(result).toMatchObject({ exitCode: 2, output: { error: 'production is protected; pass --confirm production to publish' } });
+    expect(uploadAndUpdateIPNS).not.toHaveBeenCalled();
+  });
+
+  test('refuses to publish when the live record cannot be verified', async () => {
+    resolveVerifiedIPNS.mockImplementation(async () => ({ success: false, error: 'All routers failed' }));
+
+    const result = await run('publish', 'staging', configPath);
+
+    expect(result.exitCode).toBe(2);
+    expect(result.output.error).toContain('Could not verify the live record of staging');
+    expect(uploadAndUpdateIPNS).not.toHaveBeenCalled();
+  });
+
+  test('publishes without the check when forced', async () => {
+    resolveVerifiedIPNS.mockImplementation(async () => ({ success: false, error: 'All routers failed' }));
+
+    expect((await run('publish', 'staging', configPath, '--force')).exitCode).toBe(0);
+    expect(uploadAndUpdateIPNS.mock.calls[0][5]).toMatchObject({ base: null, force: true });
+  });
+
+  test('publishes the first version when no record exists yet', async () => {
+    resolveVerifiedIPNS.mockImplementation(async () => ({ success: false, notFound: true, error: 'No IPNS record' }));
+
+    expect(await run('publish', 'staging', configPath)).toMatchObject({ exitCode: 0, output: { previousCid: null } });
+    expect(uploadAndUpdateIPNS.mock.calls[0][5]).toMatchObject({ base: null });
+  });
+
+  test('exits 3 when the live record moved away from --base', async () => {
+    const result = await run('publish', 'staging', configPath, '--base', 'bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4');
+
+    expect(result).toMatchObject({ exitCode: 3, output: { conflict: { liveCid: LIVE_CID } } });
+    expect(uploadAndUpdateIPNS).not.toHaveBeenCalled();
+  });
+
+  test('accepts --base in another CID spelling', async () => {
+    const result = await run('publish', 'staging', configPath, '--base', CID.parse(LIVE_CID).toV1().toString());
+
+    expect(result.exitCode).toBe(0);
+  });
+
+  test('reports an unchanged config even when the live CID is spelled differently', async () => {
+    const cid = await computeConfigCID({ apiUrl: 'https://new-api', retries: 3 }, { pinningProvider: 'pinata', cidVersion: 0 });
+    resolveVerifiedIPNS.mockImplementation(async () => ({ success: true, record: liveRecord(CID.parse(cid).toV1().toString()) }));
+
+    expect(await run('publish', 'staging', configPath)).toMatchObject({ exitCode: 0, output: { unchanged: true } });
+    expect(uploadAndUpdateIPNS).not.toHaveBeenCalled();
+  });
+
+  test('exits 3 when the record changes while publishing', async () => {
+    uploadAndUpdateIPNS.mockImplementationOnce(async () => ({
+      ipfsResult: { success: true, ipfsHash: 'QmNew' },
+      ipnsResult: { success: false, conflict: { expectedCid: LIVE_CID, liveCid: 'QmOther', liveSequence: 9n }, error: 'Remote changed' }
+    }));
+
+    expect(await run('publish', 'staging', configPath)).toMatchObject({ exitCode: 3, output: { error: 'Remote changed', cid: 'QmNew' } });
+  });
+});
+
+describe('secrets from the environment', () => {
+  test('reads the signing key only from the variable scoped to the environment', async () => {
+    await run('publish', 'staging', configPath);
+
+    expect(uploadAndUpdateIPNS.mock.calls[0][2]).toMatchObject({ ipnsPrivateKey: 'staging-key' });
+  });
+
+  test('never applies an unscoped signing key', async () => {
+    delete process.env.VARIABLES_STAGING_IPNS_PRIVATE_KEY;
+    process.env.VARIABLES_IPNS_PRIVATE_KEY = 'some-key';
+
+    const result = await run('publish', 'staging', configPath);
+
+    expect(result.output.error).toBe('No IPNS private key or signer for staging; set VARIABLES_STAGING_IPNS_PRIVATE_KEY or ipnsSignerUrl');
+    expect(uploadAndUpdateIPNS).not.toHaveBeenCalled();
+  });
+
+  test('accepts shared pinning credentials unscoped', async () => {
+    await writeStructure({ pinningProvider: 'pinata', cidVersion: 0 });
+    expect((await run('publish', 'staging', configPath)).output.error).toBe('No pinning credentials for staging');
+
+    process.env.VARIABLES_PINATA_JWT = 'jwt';
+    expect((await run('publish', 'staging', configPath)).exitCode).toBe(0);
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * Variables CLI
+ * Fetch, diff and publish environment configs from CI, reusing the services the UI runs on
+ *
+ *   bun run variables <fetch|resolve|diff|publish> <environment> [file.json] [options]
+ *   bun run variables types [environment...] [--out config-types.ts]
+ *
+ * Every command prints one JSON document to stdout; diagnostics go to stderr.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import { diffConfigs, summarizeDiff } from '@/lib/configDiff';
+import { generateConfigTypes } from '@/lib/configTypes';
+import type { ConfigValue } from '@/lib/configValue';
+import { validateSchema } from '@/lib/jsonSchema';
+import { getSchemaReference, loadConfigSchema } from '@/services/configSchema';
+import { resolveGatewayOptions } from '@/services/gateways';
+import { cidsEqual } from '@/services/ipfsBlocks';
+import { computeConfigCID, isPinningConfigured, uploadConfigToIPFS } from '@/services/ipfsUploader';
+import { fetchFromIPFS, validateConfigStructure } from '@/services/ipnsFetcher';
+import { resolveRouterOptions, resolveVerifiedIPNS, type VerifiedIPNSRecord } from '@/services/ipnsResolver';
+import {
+  isIPNSConfiguredForEnvironmentConfig,
+  uploadAndUpdateIPNS,
+  type ConfigStructure,
+  type ConfigStructureWithEnv,
+  type EnvironmentConfig,
+  type PublishBase
+} from '@/services/ipnsUpdater';
+import { SECRET_FIELDS } from '@/services/keystore';
+import { resolvePinningSettings } from '@/services/pinningProviders';
+
+const EXIT_OK = 0;
+// `diff` found changes
+const EXIT_CHANGES = 1;
+const EXIT_ERROR = 2;
+// `publish` refused because the live record moved away from `--base`
+const EXIT_CONFLICT = 3;
+
+const DEFAULT_STRUCTURE_PATH = 'structure.json';
+
+const USAGE = `Usage: variables <command> <environment> [file.json] [options]
+
+Commands:
+  resolve <env>              Resolve and verify the environment's IPNS record
+  fetch <env>                Resolve, then fetch and hash-check the published config
+  diff <env> <file.json>     Compare a config file with the published config (exit 1 when they differ)
+  publish <env> <file.json>  Upload the config and point the IPNS record at it
+  types [env...]             Generate a TypeScript interface and Zod schema fitting the published configs
+                             of the given environments (default: all)
+
+Options:
+  -s, --structure <path>     Structure file (default: $VARIABLES_STRUCTURE or ${DEFAULT_STRUCTURE_PATH})
+  --base <cid>               publish: refuse unless the live record still points at this CID
+  --force                    publish: skip the live record check
+  --confirm <env>            publish: required for protected environments
+  --out <path>               types: write the generated file instead of including it in the JSON
+  --name <TypeName>          types: name of the generated interface (default: Config)
+  -h, --help                 Show this help
+
+Secrets missing from the structure file are read from VARIABLES_<ENV>_<FIELD> variables,
+e.g. VARIABLES_PRODUCTION_IPNS_PRIVATE_KEY. Pinning credentials shared by every environment
+may also be given unscoped, e.g. VARIABLES_PINATA_JWT; signing keys never are.`;
+
+export interface CommandResult {
+  exitCode: number;
+  output: Record<string, unknown>;
+  // Print the usage text to stderr alongside the JSON
+  showUsage?: boolean;
+}
+
+interface CommandContext {
+  environmentName: string;
+  environmentConfig: EnvironmentConfig;
+  configEnvs: Record<string, unknown>;
+  file?: string;
+  options: { base?: string; force?: boolean; confirm?: string };
+}
+
+function fail(error: string, exitCode = EXIT_ERROR, details: Record<string, unknown> = {}): CommandResult {
+  return { exitCode, output: { ok: false, error, ...details } };
+}
+
+// Secrets that can publish to an IPNS name; these are only ever read from variables scoped to one environment
+const SIGNING_SECRET_FIELDS: readonly string[] = ['ipnsPrivateKey', 'ipnsSignerAuthorization'];
+
+// VARIABLES_<ENV>_<FIELD>, or VARIABLES_<FIELD> without an environment
+function secretVariableName(field: string, environmentName?: string): string {
+  const scope = environmentName ? `${environmentName.replace(/[^A-Za-z0-9]+/g, '_').toUpperCase()}_` : '';
+  return `VARIABLES_${scope}${field.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}`;
+}
+
+/**
+ * Overlay secrets from the process environment, the CLI's stand-in for the browser keystore.
+ * A CI job holding one environment's key cannot sign another environment's content with it.
+ */
+function applyEnvironmentSecrets(environmentName: string, environmentConfig: EnvironmentConfig): EnvironmentConfig {
+  const secrets: Record<string, string> = {};
+  for (const field of SECRET_FIELDS) {
+    const value = process.env[secretVariableName(field, environmentName)]
+      ?? (SIGNING_SECRET_FIELDS.includes(field) ? undefined : process.env[secretVariableName(field)]);
+    if (value && !environmentConfig[field]) secrets[field] = value;
+  }
+  return { ...environmentConfig, ...secrets };
+}
+
+async function readJSONFile(path: string): Promise<Record<string, unknown>> {
+  const parsed = JSON.parse(await readFile(path, 'utf8'));
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`${path} must contain a JSON object`);
+  }
+  return parsed;
+}
+
+function describeRecord(record: VerifiedIPNSRecord) {
+  return {
+    ipnsName: record.ipnsName,
+    cid: record.cid,
+    sequence: record.sequence,
+    expiresAt: new Date(record.expiresAt).toISOString(),
+    ttlMs: record.ttlMs,
+    source: record.source
+  };
+}
+
+async function loadLiveConfig(context: Pick<CommandContext, 'environmentName' | 'environmentConfig' | 'configEnvs'>) {
+  const live = await resolveVerifiedIPNS(context.environmentConfig.ipnsPublicKey, resolveRouterOptions(context.configEnvs));
+  if (!live.success || !live.record) {
+    return { error: `Could not resolve ${context.environmentName}: ${live.error}` };
+  }
+
+  const content = await fetchFromIPFS(live.record.cid, resolveGatewayOptions(context.configEnvs));
+  if (!content.success || !content.data) {
+    return { record: live.record, error: `Could not fetch ${live.record.cid}: ${content.error}` };
+  }
+  return { record: live.record, config: content.data as Record<string, unknown> };
+}
+
+async function resolveCommand(context: CommandContext): Promise<CommandResult> {
+  const live = await resolveVerifiedIPNS(context.environmentConfig.ipnsPublicKey, resolveRouterOptions(context.configEnvs));
+  if (!live.success || !live.record) {
+    return fail(`Could not resolve ${context.environmentName}: ${live.error}`);
+  }
+  return { exitCode: EXIT_OK, output: { ok: true, environment: context.environmentName, record: describeRecord(live.record) } };
+}
+
+async function fetchCommand(context: CommandContext): Promise<CommandResult> {
+  const live = await loadLiveConfig(context);
+  if (!live.config) return fail(live.error);
+
+  return {
+    exitCode: EXIT_OK,
+    output: { ok: true, environment: context.environmentName, record: describeRecord(live.record), config: live.config }
+  };
+}
+
+async function diffCommand(context: CommandContext): Promise<CommandResult> {
+  if (!context.file) return fail('diff needs a config file');
+  const config = await readJSONFile(context.file);
+
+  const live = await loadLiveConfig(context);
+  if (!live.config) return fail(live.error);
+
+  const changes = diffConfigs(live.config, config);
+  return {
+    exitCode: changes.length ? EXIT_CHANGES : EXIT_OK,
+    output: {
+      ok: true,
+      environment: context.environmentName,
+      cid: live.record.cid,
+      identical: changes.length === 0,
+      summary: summarizeDiff(changes),
+      changes
+    }
+  };
+}
+
+async function publishCommand(context: CommandContext): Promise<CommandResult> {
+  const { environmentName, environmentConfig, configEnvs, options } = context;
+  if (!context.file) return fail('publish needs a config file');
+  const config = await readJSONFile(context.file);
+
+  if (environmentConfig.protected && options.confirm !== environmentName) {
+    return fail(`${environmentName} is protected; pass --confirm ${environmentName} to publish`);
+  }
+
+  const pinningSettings = resolvePinningSettings(configEnvs, environmentConfig);
+  if (!isPinningConfigured(pinningSettings)) {
+    return fail(`No pinning credentials for ${environmentName}`);
+  }
+  if (!isIPNSConfiguredForEnvironmentConfig(environmentConfig)) {
+    return fail(`No IPNS private key or signer for ${environmentName}; set ${secretVariableName('ipnsPrivateKey', environmentName)} or ipnsSignerUrl`);
+  }
+
+  const gatewayOptions = resolveGatewayOptions(configEnvs);
+  const schemaReference = getSchemaReference(environmentConfig, configEnvs);
+  if (schemaReference) {
+    const schema = await loadConfigSchema(schemaReference, gatewayOptions);
+    if (!schema.success || !schema.schema) {
+      return fail(`Could not load the config schema: ${schema.error}`);
+    }
+    const errors = validateSchema(config, schema.schema);
+    if (errors.length) {
+      return fail('Config does not match its schema', EXIT_ERROR, { schemaErrors: errors });
+    }
+  }
+
+  // Publish on top of what is live now unless the caller pinned the version it reviewed
+  const routerOptions = resolveRouterOptions(configEnvs);
+  const live = await resolveVerifiedIPNS(environmentConfig.ipnsPublicKey, routerOptions);
+  // A router outage is not "nothing published"; publishing then would overwrite whatever is live unchecked
+  if (!live.record && !live.notFound && !options.force) {
+    return fail(`Could not verify the live record of ${environmentName}: ${live.error}; pass --force to publish without the check`);
+  }
+  const liveBase: PublishBase | null = live.record ? { cid: live.record.cid, sequence: live.record.sequence } : null;
+  if (options.base && !options.force && !(liveBase && cidsEqual(liveBase.cid, options.base))) {
+    return fail(`${environmentName} points to ${liveBase?.cid ?? 'nothing verifiable'}, not ${options.base}`, EXIT_CONFLICT, {
+      conflict: { expectedCid: options.base, liveCid: liveBase?.cid ?? null }
+    });
+  }
+
+  const cid = await computeConfigCID(config, pinningSettings);
+  if (liveBase && cidsEqual(liveBase.cid, cid) && !options.force) {
+    return { exitCode: EXIT_OK, output: { ok: true, environment: environmentName, unchanged: true, cid, sequence: liveBase.sequence } };
+  }
+
+  const { ipfsResult, ipnsResult } = await uploadAndUpdateIPNS(
+    config,
+    environmentName,
+    environmentConfig,
+    pinningSettings,
+    uploadConfigToIPFS,
+    { base: liveBase, force: options.force, routerOptions }
+  );
+  if (!ipfsResult.success || !ipfsResult.ipfsHash) {
+    return fail(`Upload failed: ${ipfsResult.error}`);
+  }
+  if (ipnsResult?.conflict) {
+    return fail(ipnsResult.error ?? 'The live record changed during publishing', EXIT_CONFLICT, {
+      cid: ipfsResult.ipfsHash,
+      conflict: ipnsResult.conflict
+    });
+  }
+  if (!ipnsResult?.success) {
+    return fail(`IPNS update failed: ${ipnsResult?.error ?? 'Unknown error'}`, EXIT_ERROR, { cid: ipfsResult.ipfsHash });
+  }
+
+  return {
+    exitCode: EXIT_OK,
+    output: {
+      ok: true,
+      environment: environmentName,
+      unchanged: false,
+      ipnsName: ipnsResult.ipnsName,
+      cid: ipfsResult.ipfsHash,
+      sequence: ipnsResult.sequence,
+      previousCid: liveBase?.cid ?? null
+    }
+  };
+}
+
+async function typesCommand(
+  structure: ConfigStructure,
+  configEnvs: Record<string, unknown>,
+  environmentNames: string[],
+  options: { out?: string; name?: string }
+): Promise<CommandResult> {
+  const typeName = options.name ?? 'Config';
+  if (!/^[A-Za-z_$][\w$]*$/.test(typeName)) return fail(`"${typeName}" is not a valid type name`);
+
+  const names = environmentNames.length ? environmentNames : Object.keys(structure);
+  const missing = names.filter(name => !structure[name]);
+  if (missing.length) {
+    return fail(`No environment ${missing.map(name => `"${name}"`).join(', ')} in the structure`, EXIT_ERROR, { environments: Object.keys(structure) });
+  }
+
+  // Leaving an environment out would make its keys look optional, so any failure fails the command
+  const configs: Record<string, Record<string, ConfigValue>> = {};
+  const errors: Record<string, string> = {};
+  for (const environmentName of names) {
+    const live = await loadLiveConfig({ environmentName, environmentConfig: structure[environmentName] as EnvironmentConfig, configEnvs });
+    if (live.config) configs[environmentName] = live.config as Record<string, ConfigValue>;
+    else errors[environmentName] = live.error;
+  }
+  if (Object.keys(errors).length) return fail('Could not load every environment', EXIT_ERROR, { errors });
+
+  const source = generateConfigTypes(configs, typeName);
+  if (options.out) {
+    await writeFile(options.out, source);
+    return { exitCode: EXIT_OK, output: { ok: true, environments: names, file: options.out } };
+  }
+  return { exitCode: EXIT_OK, output: { ok: true, environments: names, source } };
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<CommandResult>> = {
+  resolve: resolveCommand,
+  fetch: fetchCommand,
+  diff: diffCommand,
+  publish: publishCommand
+};
+
+export async function runCLI(argv: string[]): Promise<CommandResult> {
+  let parsed: ReturnType<typeof parseCLIArgs>;
+  try {
+    parsed = parseCLIArgs(argv);
+  } catch (error) {
+    return { ...fail(error instanceof Error ? error.message : String(error)), showUsage: true };
+  }
+
+  const { values, positionals } = parsed;
+  const [command, environmentName, file] = positionals;
+  if (values.help) {
+    return { exitCode: EXIT_OK, output: { ok: true }, showUsage: true };
+  }
+  if (!command) return { ...fail('No command given'), showUsage: true };
+
+  const run = COMMANDS[command];
+  if (!run && command !== 'types') return { ...fail(`Unknown command "${command}"`), showUsage: true };
+  if (!environmentName && command !== 'types') return fail(`${command} needs an environment name`);
+
+  try {
+    const structurePath = values.structure ?? process.env.VARIABLES_STRUCTURE ?? DEFAULT_STRUCTURE_PATH;
+    const validation = validateConfigStructure(await readJSONFile(structurePath));
+    if (!validation.valid || !validation.config) {
+      return fail(`${structurePath}: ${validation.error}`);
+    }
+
+    const { __env: configEnvs = {}, ...structure } = validation.config as ConfigStructureWithEnv;
+    if (command === 'types') {
+      return await typesCommand(structure, configEnvs, positionals.slice(1), { out: values.out, name: values.name });
+    }
+
+    const environmentConfig = structure[environmentName] as EnvironmentConfig | undefined;
+    if (!environmentConfig) {
+      return fail(`No environment "${environmentName}" in ${structurePath}`, EXIT_ERROR, { environments: Object.keys(structure) });
+    }
+
+    return await run({
+      environmentName,
+      environmentConfig: applyEnvironmentSecrets(environmentName, environmentConfig),
+      configEnvs,
+      file,
+      options: { base: values.base, force: values.force, confirm: values.confirm }
+    });
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Unknown error');
+  }
+}
+
+function parseCLIArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      structure: { type: 'string', short: 's' },
+      base: { type: 'string' },
+      force: { type: 'boolean' },
+      confirm: { type: 'string' },
+      out: { type: 'string' },
+      name: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+// bigint sequences are printed as decimal strings
+export function toJSON(output: Record<string, unknown>): string {
+  return JSON.stringify(output, (_, value) => typeof value === 'bigint' ? value.toString() : value, 2);
+}
+
+if (import.meta.main) {
+  const { exitCode, output, showUsage } = await runCLI(process.argv.slice(2));
+  if (showUsage) console.error(USAGE);
+  console.log(toJSON(output));
+  process.exit(exitCode);
+}
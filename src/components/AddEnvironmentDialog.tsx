@@ -0,0 +1,219 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, Plus } from 'lucide-react';
+import { toConfigObject, type ConfigValue } from '@/lib/configValue';
+import type { FetchedConfig } from '@/services/ipnsFetcher';
+import { uploadConfigToIPFS } from '@/services/ipfsUploader';
+import { resolvePinningSettings } from '@/services/pinningProviders';
+import { resolveRouterOptions } from '@/services/ipnsResolver';
+import { applySecrets, getUnlockedSecrets } from '@/services/keystore';
+import {
+  generateIPNSKeypair,
+  uploadAndUpdateIPNS,
+  type ConfigStructureEnv,
+  type EnvironmentConfig,
+  type PublishBase
+} from '@/services/ipnsUpdater';
+
+export interface NewEnvironment {
+  name: string;
+  environmentConfig: EnvironmentConfig;
+  storeKeyInKeystore: boolean;
+  // Present when the first publish succeeded
+  initial?: { config: Record<string, ConfigValue>; base: PublishBase };
+}
+
+interface AddEnvironmentDialogProps {
+  open: boolean;
+  configEnvs: ConfigStructureEnv["__env"];
+  environmentNames: string[];
+  fetchedConfigs: Record<string, FetchedConfig[]>;
+  keystoreExists: boolean;
+  onRequestUnlock: () => Promise<boolean>;
+  onCreate: (environment: NewEnvironment) => Promise<void>;
+  onExportStructure: () => void;
+  onClose: () => void;
+}
+
+const NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+export function AddEnvironmentDialog({
+  open,
+  configEnvs,
+  environmentNames,
+  fetchedConfigs,
+  keystoreExists,
+  onRequestUnlock,
+  onCreate,
+  onExportStructure,
+  onClose
+}: AddEnvironmentDialogProps) {
+  const [name, setName] = useState('');
+  const [cloneFrom, setCloneFrom] = useState('');
+  const [isProtected, setIsProtected] = useState(false);
+  const [storeKeyInKeystore, setStoreKeyInKeystore] = useState(keystoreExists);
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [created, setCreated] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setName('');
+      setCloneFrom('');
+      setIsProtected(false);
+      setStoreKeyInKeystore(keystoreExists);
+      setResult(null);
+      setCreated(false);
+    }
+  }, [open]);
+
+  const cloneSources = environmentNames.filter(envName => fetchedConfigs[envName]);
+  const nameError = !name
+    ? null
+    : !NAME_PATTERN.test(name)
+      ? 'Use letters, digits, "-" and "_"'
+      : environmentNames.includes(name) || name === '__env'
+        ? `${name} already exists`
+        : null;
+
+  const handleCreate = async () => {
+    if (!name || nameError) return;
+    if (storeKeyInKeystore && !(await onRequestUnlock())) return;
+
+    setWorking(true);
+    setResult(null);
+
+    try {
+      const keypair = await generateIPNSKeypair();
+      const environmentConfig: EnvironmentConfig = {
+        ...keypair,
+        ...(isProtected ? { protected: true } : {})
+      };
+      const config = cloneFrom ? toConfigObject(fetchedConfigs[cloneFrom]) : {};
+      // Provider credentials may have been unlocked just above, after these props were rendered
+      const sharedSettings = applySecrets(configEnvs, {}, getUnlockedSecrets()).configEnvs;
+
+      // First publish, so the new name resolves for consumers right away
+      const { ipfsResult, ipnsResult } = await uploadAndUpdateIPNS(
+        config,
+        name,
+        environmentConfig,
+        resolvePinningSettings(sharedSettings, environmentConfig),
+        uploadConfigToIPFS,
+        { base: null, routerOptions: resolveRouterOptions(configEnvs) }
+      );
+
+      const published = ipfsResult.success && ipfsResult.ipfsHash && ipnsResult?.success && ipnsResult.sequence != null;
+      await onCreate({
+        name,
+        environmentConfig,
+        storeKeyInKeystore,
+        initial: published ? { config, base: { cid: ipfsResult.ipfsHash!, sequence: ipnsResult!.sequence! } } : undefined
+      });
+
+      setCreated(true);
+      setResult(published
+        ? `✅ Created ${name} (${keypair.ipnsPublicKey}) and published ${ipfsResult.ipfsHash}`
+        : `⚠️ Created ${name} (${keypair.ipnsPublicKey}), but the first publish failed: ${ipfsResult.error ?? ipnsResult?.error ?? 'Unknown error'}. Publish it from its tab.`);
+    } catch (error) {
+      setResult(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !working && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Add environment</DialogTitle>
+          <DialogDescription>
+            Generates a new Ed25519 IPNS key, publishes the initial configuration under it and adds it to the structure.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!created ? (
+          <div className="space-y-3 text-sm">
+            <div className="space-y-1">
+              <Label htmlFor="new-environment-name">Name</Label>
+              <Input
+                id="new-environment-name"
+                value={name}
+                onChange={(e) => setName(e.target.value.trim())}
+                placeholder="staging"
+                aria-invalid={!!nameError}
+              />
+              {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="new-environment-clone">Initial content</Label>
+              <select
+                id="new-environment-clone"
+                value={cloneFrom}
+                onChange={(e) => setCloneFrom(e.target.value)}
+                className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+              >
+                <option value="">Empty configuration</option>
+                {cloneSources.map(source => <option key={source} value={source}>Copy of {source} (current draft)</option>)}
+              </select>
+              {cloneSources.length < environmentNames.length && (
+                <p className="text-xs text-muted-foreground">Fetch an environment to offer it as a starting point.</p>
+              )}
+            </div>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={isProtected} onChange={(e) => setIsProtected(e.target.checked)} />
+              Protected (publishing requires typing its name)
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={storeKeyInKeystore}
+                disabled={!keystoreExists}
+                onChange={(e) => setStoreKeyInKeystore(e.target.checked)}
+              />
+              Keep the private key in the keystore instead of the structure file
+            </label>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Export the structure file to keep the new environment. {storeKeyInKeystore
+              ? 'Its private key stays in this browser\'s keystore.'
+              : 'The file includes the new private key - store it safely.'}
+          </p>
+        )}
+
+        {result && <div className="p-3 rounded-lg bg-muted text-sm font-mono whitespace-pre-wrap break-all">{result}</div>}
+
+        <DialogFooter>
+          {created ? (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button onClick={onExportStructure}>
+                <Download className="h-4 w-4 mr-2" />
+                Export structure file
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={working}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={working || !name || !!nameError}>
+                <Plus className="h-4 w-4 mr-2" />
+                {working ? 'Creating...' : 'Generate key & publish'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,224 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Download, Table } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { deepEqual, valueType } from '@/lib/configDiff';
+import type { FetchedConfig } from '@/services/ipnsFetcher';
+
+type RowStatus = 'same' | 'different' | 'type-mismatch' | 'missing';
+type MatrixFilter = 'all' | 'differences' | 'missing' | 'type-mismatch';
+
+interface MatrixRow {
+  key: string;
+  values: Record<string, { present: boolean; value: unknown }>;
+  status: RowStatus;
+}
+
+interface SelectedCell {
+  key: string;
+  environmentName: string;
+  value: unknown;
+}
+
+interface ComparisonMatrixProps {
+  environmentNames: string[];
+  fetchedConfigs: Record<string, FetchedConfig[]>;
+  loading: Record<string, boolean>;
+  onFetch: (environmentName: string) => void;
+  onCopyValue: (environmentName: string, key: string, value: unknown) => void;
+}
+
+const STATUS_LABELS: Record<RowStatus, string> = {
+  same: 'same',
+  different: 'differs',
+  'type-mismatch': 'type mismatch',
+  missing: 'missing'
+};
+
+function buildRows(environmentNames: string[], fetchedConfigs: Record<string, FetchedConfig[]>): MatrixRow[] {
+  const loaded = environmentNames.filter(name => fetchedConfigs[name]);
+  const keys = new Set(loaded.flatMap(name => fetchedConfigs[name].map(item => item.key)));
+
+  return [...keys].sort().map(key => {
+    const values: MatrixRow['values'] = {};
+    for (const name of loaded) {
+      const item = fetchedConfigs[name].find(entry => entry.key === key);
+      values[name] = { present: !!item, value: item?.value };
+    }
+
+    const present = Object.values(values).filter(cell => cell.present);
+    let status: RowStatus = 'same';
+    if (present.length < loaded.length) {
+      status = 'missing';
+    } else if (new Set(present.map(cell => valueType(cell.value))).size > 1) {
+      status = 'type-mismatch';
+    } else if (present.some(cell => !deepEqual(cell.value, present[0].value))) {
+      status = 'different';
+    }
+
+    return { key, values, status };
+  });
+}
+
+function matchesFilter(row: MatrixRow, filter: MatrixFilter): boolean {
+  switch (filter) {
+    case 'differences':
+      return row.status !== 'same';
+    case 'missing':
+      return row.status === 'missing';
+    case 'type-mismatch':
+      return row.status === 'type-mismatch';
+    default:
+      return true;
+  }
+}
+
+export function ComparisonMatrix({
+  environmentNames,
+  fetchedConfigs,
+  loading,
+  onFetch,
+  onCopyValue
+}: ComparisonMatrixProps) {
+  const [filter, setFilter] = useState<MatrixFilter>('differences');
+  const [search, setSearch] = useState('');
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+
+  const rows = useMemo(() => buildRows(environmentNames, fetchedConfigs), [environmentNames, fetchedConfigs]);
+  const visibleRows = rows.filter(row => matchesFilter(row, filter) && row.key.toLowerCase().includes(search.toLowerCase()));
+  const loadedNames = environmentNames.filter(name => fetchedConfigs[name]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Table className="h-5 w-5" />
+          Environment Comparison
+        </CardTitle>
+        <CardDescription>
+          Keys as rows, environments as columns. Compares the current drafts of every fetched environment.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as MatrixFilter)}
+            className="border-input h-9 rounded-md border bg-transparent px-3 text-sm"
+          >
+            <option value="all">All keys</option>
+            <option value="differences">Only differences</option>
+            <option value="missing">Only missing keys</option>
+            <option value="type-mismatch">Only type mismatches</option>
+          </select>
+          <Input
+            placeholder="Filter keys..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="sm:max-w-xs"
+          />
+        </div>
+
+        {selected && (
+          <div className="rounded-md border p-3 text-sm space-y-2">
+            <div className="break-all">
+              Selected <code className="font-mono">{selected.key}</code> from <strong>{selected.environmentName}</strong>:
+              <code className="font-mono ml-1">{JSON.stringify(selected.value)}</code>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-muted-foreground">Copy into draft of:</span>
+              {loadedNames.filter(name => name !== selected.environmentName).map(name => (
+                <Button
+                  key={name}
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onCopyValue(name, selected.key, selected.value)}
+                >
+                  <Copy className="h-4 w-4 mr-1" />
+                  {name}
+                </Button>
+              ))}
+              <Button size="sm" variant="ghost" onClick={() => setSelected(null)}>Clear</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="overflow-auto border rounded-md">
+          <table className="w-full text-xs">
+            <thead className="bg-muted">
+              <tr>
+                <th className="text-left p-2 sticky left-0 bg-muted">Key</th>
+                {environmentNames.map(name => (
+                  <th key={name} className="text-left p-2 whitespace-nowrap">
+                    <div className="flex items-center gap-2">
+                      {name}
+                      {!fetchedConfigs[name] && (
+                        <Button size="sm" variant="outline" className="h-6" disabled={loading[name]} onClick={() => onFetch(name)}>
+                          <Download className="h-3 w-3 mr-1" />
+                          {loading[name] ? 'Fetching...' : 'Fetch'}
+                        </Button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {visibleRows.map(row => (
+                <tr key={row.key} className="border-t align-top">
+                  <td className="p-2 font-mono sticky left-0 bg-background">
+                    <div className="break-all">{row.key}</div>
+                    {row.status !== 'same' && (
+                      <Badge variant={row.status === 'type-mismatch' ? 'destructive' : 'outline'} className="mt-1">
+                        {STATUS_LABELS[row.status]}
+                      </Badge>
+                    )}
+                  </td>
+                  {environmentNames.map(name => {
+                    const cell = row.values[name];
+                    if (!cell) {
+                      return <td key={name} className="p-2 text-muted-foreground">—</td>;
+                    }
+                    if (!cell.present) {
+                      return <td key={name} className="p-2 bg-red-500/10 text-destructive italic">missing</td>;
+                    }
+
+                    const isSelected = selected?.key === row.key && selected.environmentName === name;
+                    return (
+                      <td
+                        key={name}
+                        onClick={() => setSelected({ key: row.key, environmentName: name, value: cell.value })}
+                        title="Select to copy this value into another environment"
+                        className={cn(
+                          'p-2 font-mono cursor-pointer break-all max-w-[320px] hover:bg-accent',
+                          row.status === 'different' && 'bg-amber-500/10',
+                          row.status === 'type-mismatch' && 'bg-red-500/10',
+                          isSelected && 'ring-2 ring-ring ring-inset'
+                        )}
+                      >
+                        {JSON.stringify(cell.value)}
+                        {row.status === 'type-mismatch' && (
+                          <div className="font-sans text-muted-foreground">{valueType(cell.value)}</div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+              {visibleRows.length === 0 && (
+                <tr>
+                  <td colSpan={environmentNames.length + 1} className="p-4 text-center text-muted-foreground">
+                    {loadedNames.length ? 'No keys match the current filter.' : 'Fetch environments to compare them.'}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { formatPath, summarizeDiff, valueType, type DiffChange } from '@/lib/configDiff';
+
+interface ConfigDiffViewProps {
+  changes: DiffChange[];
+  emptyMessage?: string;
+}
+
+const CHANGE_STYLES: Record<DiffChange['type'], string> = {
+  added: 'border-l-green-600 bg-green-500/5',
+  removed: 'border-l-red-600 bg-red-500/5',
+  renamed: 'border-l-blue-600 bg-blue-500/5',
+  modified: 'border-l-amber-500 bg-amber-500/5'
+};
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
+
+export function ConfigDiffView({ changes, emptyMessage = 'No changes.' }: ConfigDiffViewProps) {
+  const summary = summarizeDiff(changes);
+
+  if (!changes.length) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-2 text-xs">
+        {summary.added > 0 && <Badge variant="outline">+{summary.added} added</Badge>}
+        {summary.removed > 0 && <Badge variant="outline">-{summary.removed} removed</Badge>}
+        {summary.renamed > 0 && <Badge variant="outline">{summary.renamed} renamed</Badge>}
+        {summary.modified > 0 && <Badge variant="outline">{summary.modified} modified</Badge>}
+      </div>
+
+      <div className="space-y-1 max-h-[45vh] overflow-auto">
+        {changes.map((change, index) => (
+          <div key={index} className={`border-l-4 rounded-sm px-3 py-1.5 text-xs font-mono break-all ${CHANGE_STYLES[change.type]}`}>
+            <div className="font-semibold">
+              {change.type === 'renamed'
+                ? `${formatPath(change.path)} → ${formatPath(change.newPath)}`
+                : formatPath(change.path)}
+              <span className="ml-2 font-sans font-normal text-muted-foreground">{change.type}</span>
+            </div>
+            {change.type === 'modified' ? (
+              <>
+                <div className="text-red-700 dark:text-red-400">- {formatValue(change.before)}</div>
+                <div className="text-green-700 dark:text-green-400">+ {formatValue(change.after)}</div>
+                {valueType(change.before) !== valueType(change.after) && (
+                  <div className="font-sans text-amber-700 dark:text-amber-400">
+                    Type changes from {valueType(change.before)} to {valueType(change.after)}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className={change.type === 'removed' ? 'text-red-700 dark:text-red-400' : 'text-green-700 dark:text-green-400'}>
+                {change.type === 'removed' ? '-' : '+'} {formatValue(change.value)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
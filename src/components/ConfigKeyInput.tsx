@@ -0,0 +1,37 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+
+interface ConfigKeyInputProps {
+  value: string;
+  error?: string;
+  onCommit: (key: string) => void;
+}
+
+// Edits a key locally and commits on blur or Enter; Escape restores the committed key
+export function ConfigKeyInput({ value, error, onCommit }: ConfigKeyInputProps) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  const commit = () => {
+    if (draft !== value) onCommit(draft);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commit();
+          if (e.key === 'Escape') setDraft(value);
+        }}
+        aria-invalid={!!error}
+        className="font-mono text-sm truncate"
+        placeholder="Key name"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,9 +1,46 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { ConfigUpload } from './ConfigUpload';
 import { ConfigTabs } from './ConfigTabs';
-import { fetchFromIPNS } from '@/services/ipnsFetcher';
+import { fetchFromIPFS, fetchFromIPNS } from '@/services/ipnsFetcher';
 import type { FetchedConfig } from '@/services/ipnsFetcher';
-import type { EnvironmentConfig, ConfigStructure, ConfigStructureWithEnv, ConfigStructureEnv } from '@/services/ipnsUpdater';
+import { createRowId, toConfigRows, type ConfigValue } from '@/lib/configValue';
+import { getIPNSRecordTimings, isIPNSConfiguredForEnvironmentConfig, republishIPNSRecord, updateIPNSRecord, uploadAndUpdateIPNS } from '@/services/ipnsUpdater';
+import { resolveIPNSSigner } from '@/services/ipnsSigner';
+import { uploadConfigToIPFS } from '@/services/ipfsUploader';
+import { findLastPublished, recordHistory, type HistoryEntry } from '@/services/historyStore';
+import type { EnvironmentConfig, ConfigStructure, ConfigStructureWithEnv, ConfigStructureEnv, PublishBase } from '@/services/ipnsUpdater';
+import { resolveVerifiedIPNS, resolveRouterOptions, type VerifiedIPNSRecord } from '@/services/ipnsResolver';
+import { resolveGatewayOptions } from '@/services/gateways';
+import {
+  DEFAULT_AUTO_LOCK_MS,
+  applySecrets,
+  createKeystore,
+  deleteKeystore,
+  extractSecrets,
+  getUnlockedSecrets,
+  hasKeystore,
+  hasSecrets,
+  lockKeystore,
+  storeSecrets,
+  unlockKeystore,
+  type KeystoreSecrets
+} from '@/services/keystore';
+import { downloadFile } from '@/lib/utils';
+import { KeystoreDialog, type KeystoreDialogMode } from './KeystoreDialog';
+import type { NewEnvironment } from './AddEnvironmentDialog';
+import { rotateEnvironmentKey, type KeyRotationResult } from '@/services/keyRotation';
+import { resolvePinningSettings } from '@/services/pinningProviders';
+import { recordEdit, redoEdit, undoEdit, type EditHistory } from '@/lib/editHistory';
+import { deepEqual } from '@/lib/configDiff';
+import { deleteDraft, hasUnpublishedChanges, loadDrafts, saveDraft, type DraftRecord } from '@/services/draftStore';
+import type { PublishProposal } from '@/services/publishProposal';
+
+// How often the in-app scheduler checks for records close to expiry
+const REPUBLISH_CHECK_INTERVAL_MS = 60 * 1000;
+// Back-off after a failed automatic republish
+const REPUBLISH_RETRY_MS = 10 * 60 * 1000;
+// Quiet period before edits are written to the draft store
+const DRAFT_AUTOSAVE_DELAY_MS = 500;
 
 export function ConfigManager() {
 
@@ -12,9 +49,40 @@ export function ConfigManager() {
   const [configStructure, setConfigStructure] = useState<ConfigStructure | null>(null);
   const [fetchedConfigs, setFetchedConfigs] = useState<Record<string, FetchedConfig[]>>({});
   const [currentIPFSHashes, setCurrentIPFSHashes] = useState<Record<string, string>>({});
+  const [ipnsRecords, setIpnsRecords] = useState<Record<string, VerifiedIPNSRecord>>({});
+  const [resolveErrors, setResolveErrors] = useState<Record<string, string | null>>({});
+  const [draftBases, setDraftBases] = useState<Record<string, PublishBase>>({});
+  const [contentVerified, setContentVerified] = useState<Record<string, boolean>>({});
+  const [baselineConfigs, setBaselineConfigs] = useState<Record<string, Record<string, unknown>>>({});
+  const [republishing, setRepublishing] = useState<Record<string, boolean>>({});
+  const [ipnsMessages, setIpnsMessages] = useState<Record<string, string | null>>({});
+  const [autoRepublish, setAutoRepublish] = useState<Record<string, boolean>>({});
+  const [rollingBack, setRollingBack] = useState<Record<string, boolean>>({});
+  const [historyVersions, setHistoryVersions] = useState<Record<string, number>>({});
+  const [editHistories, setEditHistories] = useState<Record<string, EditHistory<FetchedConfig[] | undefined>>>({});
+  const lastAutoRepublishAttempt = useRef<Record<string, number>>({});
+  // IPNS names with a draft in the store, so drafts are deleted once they match what was published
+  const storedDrafts = useRef<Set<string>>(new Set());
   const [loading, setLoading] = useState<Record<string, boolean>>({});
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<string>('');
+  const [keystoreExists, setKeystoreExists] = useState(false);
+  const [keystoreSecrets, setKeystoreSecrets] = useState<KeystoreSecrets | null>(null);
+  const [keystorePrompt, setKeystorePrompt] = useState<{ mode: KeystoreDialogMode; resolve: (ok: boolean) => void } | null>(null);
+
+  useEffect(() => {
+    hasKeystore().then(setKeystoreExists).catch(() => setKeystoreExists(false));
+  }, []);
+
+  // The structure file plus whatever the unlocked keystore holds for it
+  const unlocked = useMemo(
+    () => configStructure ? applySecrets(configEnvs, configStructure, keystoreSecrets) : null,
+    [configEnvs, configStructure, keystoreSecrets]
+  );
+  const fileSecrets = useMemo(
+    () => configStructure ? extractSecrets(configEnvs, configStructure) : null,
+    [configEnvs, configStructure]
+  );
 
   // Handle config upload  
   const handleConfigLoaded = (config: ConfigStructureWithEnv) => {
@@ -31,6 +99,12 @@ export function ConfigManager() {
     setConfigStructure(configWithoutEnd);
     setFetchedConfigs({});
     setCurrentIPFSHashes({}); // Clear hashes on new config load
+    setIpnsRecords({});
+    setResolveErrors({});
+    setDraftBases({});
+    setContentVerified({});
+    setBaselineConfigs({});
+    setEditHistories({});
     setError(null);
 
 
@@ -39,60 +113,163 @@ export function ConfigManager() {
     if (firstEnv) {
       setActiveTab(firstEnv);
     }
+  
+    restoreDrafts(configWithoutEnd);
   };
 
+  // Bring back unpublished drafts saved for the environments of this structure
+  const restoreDrafts = async (structure: ConfigStructure) => {
+    const environments = Object.entries(structure)
+      .map(([environmentName, environment]) => ({ environmentName, ipnsName: (environment as EnvironmentConfig).ipnsPublicKey }))
+      .filter(({ ipnsName }) => ipnsName);
 
-  // Fetch content from IPNS
-  const handleFetch = async (environmentName: string, ipnsKey: string) => {
-    setLoading(prev => ({ ...prev, [environmentName]: true }));
-    setError(null);
+    let drafts: Record<string, DraftRecord>;
+    try {
+      drafts = await loadDrafts(environments.map(({ ipnsName }) => ipnsName));
+    } catch (err) {
+      console.warn('⚠️ Could not load saved drafts:', err);
+      return;
+    }
 
-    // First, try to resolve IPNS to get current IPFS hash
-    const environmentConfig = configStructure?.[environmentName] as EnvironmentConfig;
+    for (const { environmentName, ipnsName } of environments) {
+      const draft = drafts[ipnsName];
+      if (!draft) continue;
+      storedDrafts.current.add(ipnsName);
 
+      // A fetch that finished in the meantime wins over the saved draft
+      setFetchedConfigs(prev => prev[environmentName] ? prev : { ...prev, [environmentName]: draft.rows });
+      if (draft.baseline) {
+        const baseline = draft.baseline;
+        setBaselineConfigs(prev => prev[environmentName] ? prev : { ...prev, [environmentName]: baseline });
+      }
+      if (draft.base) {
+        const base = draft.base;
+        setDraftBases(prev => prev[environmentName] ? prev : { ...prev, [environmentName]: base });
+      }
+      setIpnsMessages(prev => ({
+        ...prev,
+        [environmentName]: `📝 Restored unpublished draft saved ${new Date(draft.updatedAt).toLocaleString()}`
+      }));
+    }
+  };
 
+  const dirtyEnvironments = useMemo(() => {
+    const dirty: Record<string, boolean> = {};
+    for (const [environmentName, rows] of Object.entries(fetchedConfigs)) {
+      dirty[environmentName] = hasUnpublishedChanges(rows, baselineConfigs[environmentName]);
+    }
+    return dirty;
+  }, [fetchedConfigs, baselineConfigs]);
+  const hasDirtyEnvironments = Object.values(dirtyEnvironments).some(Boolean);
+
+  // Write dirty drafts to the store and drop the ones that are clean again; reads the latest state through a ref
+  const persistDrafts = useRef<() => void>(() => {});
+  persistDrafts.current = () => {
+    if (!configStructure) return;
+
+    for (const [environmentName, rows] of Object.entries(fetchedConfigs)) {
+      const ipnsName = (configStructure[environmentName] as EnvironmentConfig | undefined)?.ipnsPublicKey;
+      if (!ipnsName) continue;
+
+      if (dirtyEnvironments[environmentName]) {
+        storedDrafts.current.add(ipnsName);
+        saveDraft({
+          ipnsName,
+          environmentName,
+          rows,
+          baseline: baselineConfigs[environmentName],
+          base: draftBases[environmentName]
+        }).catch(err => console.warn('⚠️ Could not save draft:', err));
+      } else if (storedDrafts.current.has(ipnsName)) {
+        storedDrafts.current.delete(ipnsName);
+        deleteDraft(ipnsName).catch(err => console.warn('⚠️ Could not delete draft:', err));
+      }
+    }
+  };
 
-    try {
-      let resolveResult;
+  useEffect(() => {
+    const timer = setTimeout(() => persistDrafts.current(), DRAFT_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [fetchedConfigs, baselineConfigs, draftBases]);
+
+  // Warn before leaving the page with unpublished changes
+  useEffect(() => {
+    if (!hasDirtyEnvironments) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      persistDrafts.current();
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [hasDirtyEnvironments]);
+
+
+  // Record a history entry for an environment and refresh its history panel
+  const addHistory = async (environmentName: string, entry: Pick<HistoryEntry, 'kind' | 'cid' | 'sequence' | 'note' | 'proposalId'>) => {
+    const environmentConfig = configStructure?.[environmentName] as EnvironmentConfig | undefined;
+    if (!environmentConfig) return;
+
+    const recorded = await recordHistory({ ...entry, environmentName, ipnsName: environmentConfig.ipnsPublicKey });
+    if (recorded) {
+      setHistoryVersions(prev => ({ ...prev, [environmentName]: (prev[environmentName] ?? 0) + 1 }));
+    }
+  };
 
-      // Prefer private key resolution if available (generates correct IPNS name)
-      if (environmentConfig?.ipnsPrivateKey) {
+  // Fetch content from IPNS
+  const handleFetch = async (environmentName: string, ipnsKey: string) => {
+    if (dirtyEnvironments[environmentName] && !window.confirm(`Fetching replaces the unpublished changes in ${environmentName}. Continue?`)) {
+      return;
+    }
 
-        const { resolveIPNSFromPrivateKey } = await import('@/services/ipnsUpdater');
-        resolveResult = await resolveIPNSFromPrivateKey(environmentConfig.ipnsPrivateKey);
-      } else {
+    setLoading(prev => ({ ...prev, [environmentName]: true }));
+    setError(null);
 
-        const { resolveIPNSFromPublicKey } = await import('@/services/ipnsUpdater');
-        resolveResult = await resolveIPNSFromPublicKey(ipnsKey);
-      }
+    const gatewayOptions = resolveGatewayOptions(configEnvs);
 
-      if (resolveResult.success && resolveResult.ipfsHash) {
-        setCurrentIPFSHashes(prev => ({
-          ...prev,
-          [environmentName]: resolveResult.ipfsHash!
-        }));
-      } else {
-        console.warn(`⚠️ Could not resolve IPNS: ${resolveResult.error}`);
-      }
-    } catch (error) {
-      console.warn(`⚠️ Error resolving IPNS:`, error);
+    // First, resolve the signed IPNS record to get the verified current IPFS hash.
+    // An expired record is kept so the tab can show it and offer to republish it.
+    const resolveResult = await resolveVerifiedIPNS(ipnsKey, resolveRouterOptions(configEnvs), { allowExpired: true });
+
+    if (resolveResult.success && resolveResult.record) {
+      const record = resolveResult.record;
+      setIpnsRecords(prev => ({ ...prev, [environmentName]: record }));
+      setCurrentIPFSHashes(prev => ({ ...prev, [environmentName]: record.cid }));
+      setResolveErrors(prev => ({ ...prev, [environmentName]: null }));
+    } else {
+      console.warn(`⚠️ Could not resolve IPNS: ${resolveResult.error}`);
+      // Never keep showing a hash we can no longer vouch for
+      setIpnsRecords(({ [environmentName]: _, ...rest }) => rest);
+      setCurrentIPFSHashes(({ [environmentName]: _, ...rest }) => rest);
+      setResolveErrors(prev => ({ ...prev, [environmentName]: resolveResult.error ?? 'Unknown IPNS resolve error' }));
     }
 
-    // Then fetch the actual content
-    const result = await fetchFromIPNS(ipnsKey);
+    // Then fetch the actual content, verified block by block when we know the CID
+    const result = resolveResult.record
+      ? await fetchFromIPFS(resolveResult.record.cid, gatewayOptions)
+      : await fetchFromIPNS(ipnsKey, gatewayOptions);
 
     if (result.success && result.data) {
+      const data = result.data;
       setFetchedConfigs(prev => ({
         ...prev,
-        [environmentName]: Object.entries(result.data ?? {}).map(([key, value]) => ({ key, value })) ?? []
+        [environmentName]: toConfigRows(data)
       }));
 
-      // Also store IPFS hash from gateway headers as fallback
-      if (result.ipfsHash && !configStructure?.[environmentName]?.ipnsPrivateKey) {
-        setCurrentIPFSHashes(prev => ({
-          ...prev,
-          [environmentName]: result.ipfsHash!
-        }));
+      setContentVerified(prev => ({ ...prev, [environmentName]: !!result.verified }));
+      setBaselineConfigs(prev => ({ ...prev, [environmentName]: data }));
+      clearEditHistory(environmentName);
+
+      // Remember which published record this draft is based on
+      setDraftBases(({ [environmentName]: _, ...rest }) => (
+        resolveResult.record
+          ? { ...rest, [environmentName]: { cid: resolveResult.record.cid, sequence: resolveResult.record.sequence } }
+          : rest
+      ));
+
+      if (resolveResult.record) {
+        addHistory(environmentName, { kind: 'fetch', cid: resolveResult.record.cid, sequence: resolveResult.record.sequence });
       }
     } else {
       setError(`Failed to fetch ${environmentName}: ${result.error}`);
@@ -101,106 +278,597 @@ export function ConfigManager() {
     setLoading(prev => ({ ...prev, [environmentName]: false }));
   };
 
-  // Update a specific key-value pair
-  const handleUpdateValue = (environmentName: string, key: string, value: string) => {
-
-
-    setFetchedConfigs(prev => ({
+  // Drafts as of the last edit, so edits made before the next render build on each other
+  const latestConfigs = useRef(fetchedConfigs);
+  latestConfigs.current = fetchedConfigs;
+
+  // Apply an edit to an environment's draft and record it for undo
+  const applyEdit = (
+    environmentName: string,
+    label: string,
+    update: (rows: FetchedConfig[]) => FetchedConfig[],
+    coalesceKey?: string
+  ) => {
+    const before = latestConfigs.current[environmentName];
+    const after = update(before ?? []);
+    if (before && deepEqual(before, after)) return;
+
+    latestConfigs.current = { ...latestConfigs.current, [environmentName]: after };
+    setFetchedConfigs(prev => ({ ...prev, [environmentName]: after }));
+    setEditHistories(prev => ({
       ...prev,
-      [environmentName]: prev[environmentName].map(item => {
-        if (item.key === key) {
-          return { ...item, value };
-        }
-        return item;
-      })
+      [environmentName]: recordEdit(prev[environmentName], { label, before, after, timestamp: Date.now(), coalesceKey })
     }));
   };
 
-  // Update a key name (rename key)
-  const handleUpdateKey = (environmentName: string, oldKey: string, newKey: string) => {
-    if (oldKey === newKey) return;
+  // Drafts loaded from the network start a fresh history
+  const clearEditHistory = (environmentName: string) => {
+    setEditHistories(({ [environmentName]: _, ...rest }) => rest);
+  };
 
-    setFetchedConfigs(prev => {
-      const config = [...prev[environmentName]];
-      const updatedConfig = config.map(item => {
+  const restoreSnapshot = (environmentName: string, rows: FetchedConfig[] | undefined) => {
+    const { [environmentName]: _, ...rest } = latestConfigs.current;
+    latestConfigs.current = rows ? { ...rest, [environmentName]: rows } : rest;
+    setFetchedConfigs(({ [environmentName]: _, ...rest }) => rows ? { ...rest, [environmentName]: rows } : rest);
+  };
 
-        if (item.key === oldKey) {
-          return { ...item, key: newKey };
-        }
-        return item;
-      });
+  const handleUndo = (environmentName: string) => {
+    const undone = undoEdit(editHistories[environmentName]);
+    if (!undone) return;
+    restoreSnapshot(environmentName, undone.state);
+    setEditHistories(prev => ({ ...prev, [environmentName]: undone.history }));
+  };
 
-      return {
-        ...prev,
-        [environmentName]: updatedConfig
-      };
-    });
+  const handleRedo = (environmentName: string) => {
+    const redone = redoEdit(editHistories[environmentName]);
+    if (!redone) return;
+    restoreSnapshot(environmentName, redone.state);
+    setEditHistories(prev => ({ ...prev, [environmentName]: redone.history }));
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z act on the active tab; text fields keep their native undo
+  const editShortcut = useRef<(action: 'undo' | 'redo') => void>(() => {});
+  editShortcut.current = (action) => {
+    if (!activeTab) return;
+    if (action === 'undo') handleUndo(activeTab);
+    else handleRedo(activeTab);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') return;
+      if ((event.target as HTMLElement | null)?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      // Leave the draft alone while a dialog (publish review, propose, rotate) is open over it
+      if (document.querySelector('[role="dialog"], [role="alertdialog"]')) return;
+
+      event.preventDefault();
+      editShortcut.current(event.shiftKey ? 'redo' : 'undo');
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Update the value of a row
+  const handleUpdateValue = (environmentName: string, rowId: string, value: ConfigValue) => {
+    const key = fetchedConfigs[environmentName]?.find(item => item.id === rowId)?.key;
+    applyEdit(
+      environmentName,
+      `Edit ${key || 'value'}`,
+      rows => rows.map(item => item.id === rowId ? { ...item, value } : item),
+      `value:${rowId}`
+    );
+  };
+
+  // Rename a row's key; empty and duplicate keys are kept so the editor can flag them
+  const handleUpdateKey = (environmentName: string, rowId: string, newKey: string) => {
+    const oldKey = fetchedConfigs[environmentName]?.find(item => item.id === rowId)?.key;
+    applyEdit(
+      environmentName,
+      `Rename ${oldKey || '(empty)'} to ${newKey || '(empty)'}`,
+      rows => rows.map(item => item.id === rowId ? { ...item, key: newKey } : item),
+      `key:${rowId}`
+    );
   };
 
   // Add new key-value pair
-  const handleAddKey = (environmentName: string, key: string, value: string) => {
+  const handleAddKey = (environmentName: string, key: string, value: ConfigValue) => {
     if (!key.trim()) return;
+    applyEdit(environmentName, `Add ${key}`, rows => [...rows, { id: createRowId(), key, value }]);
+  };
 
-    setFetchedConfigs(prev => ({
-      ...prev,
-      [environmentName]: [
-        ...prev[environmentName] || [],
-        { key, value }
-      ]
-    }));
+  // Remove a row
+  const handleRemoveKey = (environmentName: string, rowId: string) => {
+    const key = fetchedConfigs[environmentName]?.find(item => item.id === rowId)?.key;
+    applyEdit(environmentName, `Remove ${key || '(empty)'}`, rows => rows.filter(item => item.id !== rowId));
   };
 
-  // Remove key-value pair
-  const handleRemoveKey = (environmentName: string, key: string) => {
-    setFetchedConfigs(prev => {
-      const newConfig = [...prev[environmentName]];
-      const updatedConfig = newConfig.filter(item => item.key !== key);
-      return {
-        ...prev,
-        [environmentName]: updatedConfig
-      };
-    });
+  // Set a key in another environment's draft, adding it if missing
+  const handleCopyValue = (environmentName: string, key: string, value: unknown) => {
+    applyEdit(environmentName, `Copy ${key}`, rows => (
+      rows.some(item => item.key === key)
+        ? rows.map(item => item.key === key ? { ...item, value: value as ConfigValue } : item)
+        : [...rows, { id: createRowId(), key, value: value as ConfigValue }]
+    ));
   };
 
   // Reset to upload state
   const handleReset = () => {
+    const dirtyNames = Object.keys(dirtyEnvironments).filter(environmentName => dirtyEnvironments[environmentName]);
+    if (dirtyNames.length && !window.confirm(
+      `${dirtyNames.join(', ')} ${dirtyNames.length === 1 ? 'has' : 'have'} unpublished changes. They stay saved in this browser and are restored when this structure is loaded again. Load a different configuration?`
+    )) {
+      return;
+    }
+    // Flush edits still waiting for the autosave delay
+    persistDrafts.current();
+
     setConfigStructure(null);
     setFetchedConfigs({});
     setCurrentIPFSHashes({});
+    setIpnsRecords({});
+    setResolveErrors({});
+    setDraftBases({});
+    setContentVerified({});
+    setBaselineConfigs({});
+    setIpnsMessages({});
+    setAutoRepublish({});
+    setHistoryVersions({});
+    setEditHistories({});
     setError(null);
     setActiveTab('');
   };
 
 
-  const handleUpdateEntireConfig = (environmentName: string, config: FetchedConfig[]) => {
-    setFetchedConfigs(prev => ({
+  // A successful publish becomes the new base of the draft
+  const handlePublished = (environmentName: string, base: PublishBase, config: Record<string, unknown>, note?: string) => {
+    setDraftBases(prev => ({ ...prev, [environmentName]: base }));
+    setBaselineConfigs(prev => ({ ...prev, [environmentName]: config }));
+    setCurrentIPFSHashes(prev => ({ ...prev, [environmentName]: base.cid }));
+    // The verified record on screen is now outdated until the next fetch
+    setIpnsRecords(({ [environmentName]: _, ...rest }) => rest);
+    addHistory(environmentName, { kind: 'publish', ...base, note });
+  };
+
+  // Re-point the IPNS record to a previously published CID without re-uploading
+  const handleRollback = async (environmentName: string, entry: HistoryEntry) => {
+    const environmentConfig = unlocked?.structure[environmentName] as EnvironmentConfig | undefined;
+    if (!environmentConfig) return;
+    const { signer, error } = resolveIPNSSigner(environmentConfig);
+    if (!signer) {
+      if (error) setIpnsMessages(prev => ({ ...prev, [environmentName]: `❌ Rollback failed: ${error}` }));
+      return;
+    }
+
+    setRollingBack(prev => ({ ...prev, [environmentName]: true }));
+    setIpnsMessages(prev => ({ ...prev, [environmentName]: null }));
+
+    const gatewayOptions = resolveGatewayOptions(configEnvs);
+    const { ttlMs, lifetimeMs } = getIPNSRecordTimings(environmentConfig);
+    const liveRecord = ipnsRecords[environmentName];
+    const result = await updateIPNSRecord(entry.cid, signer, {
+      base: liveRecord ? { cid: liveRecord.cid, sequence: liveRecord.sequence } : draftBases[environmentName] ?? null,
+      routerOptions: resolveRouterOptions(configEnvs),
+      ttlMs,
+      lifetimeMs
+    });
+
+    if (result.success && result.sequence != null) {
+      const base = { cid: entry.cid, sequence: result.sequence };
+      setDraftBases(prev => ({ ...prev, [environmentName]: base }));
+      setCurrentIPFSHashes(prev => ({ ...prev, [environmentName]: entry.cid }));
+      setIpnsRecords(({ [environmentName]: _, ...rest }) => rest);
+      addHistory(environmentName, { kind: 'rollback', ...base, note: `Rolled back to version from ${new Date(entry.timestamp).toLocaleString()}` });
+
+      // Load the rolled-back content so the draft matches what is live
+      const content = await fetchFromIPFS(entry.cid, gatewayOptions);
+      if (content.success && content.data) {
+        const data = content.data;
+        setFetchedConfigs(prev => ({
+          ...prev,
+          [environmentName]: toConfigRows(data)
+        }));
+        setContentVerified(prev => ({ ...prev, [environmentName]: true }));
+        setBaselineConfigs(prev => ({ ...prev, [environmentName]: data }));
+        clearEditHistory(environmentName);
+      }
+      setIpnsMessages(prev => ({ ...prev, [environmentName]: `✅ Rolled back to ${entry.cid} (sequence ${result.sequence})` }));
+    } else if (result.conflict) {
+      setIpnsMessages(prev => ({ ...prev, [environmentName]: `❌ Rollback refused: the live record changed to ${result.conflict?.liveCid}. Fetch first.` }));
+    } else {
+      setIpnsMessages(prev => ({ ...prev, [environmentName]: `❌ Rollback failed: ${result.error}` }));
+    }
+
+    setRollingBack(prev => ({ ...prev, [environmentName]: false }));
+  };
+
+  // Re-sign the live CID with a higher sequence before the record expires, or after it already has
+  const handleRepublish = async (environmentName: string) => {
+    const environmentConfig = unlocked?.structure[environmentName] as EnvironmentConfig | undefined;
+    if (!environmentConfig) return;
+    const { signer, error } = resolveIPNSSigner(environmentConfig);
+    if (!signer) {
+      if (error) setIpnsMessages(prev => ({ ...prev, [environmentName]: `❌ Republish failed: ${error}` }));
+      return;
+    }
+
+    setRepublishing(prev => ({ ...prev, [environmentName]: true }));
+    setIpnsMessages(prev => ({ ...prev, [environmentName]: null }));
+
+    const routerOptions = resolveRouterOptions(configEnvs);
+    const { ttlMs, lifetimeMs } = getIPNSRecordTimings(environmentConfig);
+    // Used when the routers no longer serve the record at all
+    const record = ipnsRecords[environmentName];
+    const lastKnown = record
+      ? { cid: record.cid, sequence: record.sequence }
+      : draftBases[environmentName] ?? await findLastPublished(environmentConfig.ipnsPublicKey);
+    const result = await republishIPNSRecord(signer, { ttlMs, lifetimeMs, routerOptions, lastKnown });
+
+    if (result.success && result.cid && result.sequence != null) {
+      const { cid, sequence } = result;
+      setDraftBases(prev => (
+        prev[environmentName]?.cid === cid ? { ...prev, [environmentName]: { cid, sequence } } : prev
+      ));
+
+      const refreshed = await resolveVerifiedIPNS(environmentConfig.ipnsPublicKey, routerOptions);
+      if (refreshed.success && refreshed.record) {
+        const refreshedRecord = refreshed.record;
+        setIpnsRecords(prev => ({ ...prev, [environmentName]: refreshedRecord }));
+      }
+      addHistory(environmentName, { kind: 'republish', cid, sequence });
+      setIpnsMessages(prev => ({ ...prev, [environmentName]: `✅ Republished ${cid} with sequence ${sequence}` }));
+    } else {
+      setIpnsMessages(prev => ({ ...prev, [environmentName]: `❌ Republish failed: ${result.error}` }));
+    }
+
+    setRepublishing(prev => ({ ...prev, [environmentName]: false }));
+  };
+
+  // Scheduler tick reads the latest state through a ref so the interval never goes stale
+  const republishTick = useRef<() => void>(() => {});
+  republishTick.current = () => {
+    for (const [environmentName, enabled] of Object.entries(autoRepublish)) {
+      const record = ipnsRecords[environmentName];
+      const environmentConfig = unlocked?.structure[environmentName] as EnvironmentConfig | undefined;
+      if (!enabled || !record || !environmentConfig || !isIPNSConfiguredForEnvironmentConfig(environmentConfig) || republishing[environmentName]) continue;
+
+      const { republishBeforeMs } = getIPNSRecordTimings(environmentConfig);
+      const lastAttempt = lastAutoRepublishAttempt.current[environmentName] ?? 0;
+      if (record.expiresAt - Date.now() > republishBeforeMs || Date.now() - lastAttempt < REPUBLISH_RETRY_MS) continue;
+
+      lastAutoRepublishAttempt.current[environmentName] = Date.now();
+      handleRepublish(environmentName);
+    }
+  };
+
+  useEffect(() => {
+    const interval = setInterval(() => republishTick.current(), REPUBLISH_CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const handleToggleAutoRepublish = (environmentName: string, enabled: boolean) => {
+    setAutoRepublish(prev => ({ ...prev, [environmentName]: enabled }));
+    if (enabled) {
+      delete lastAutoRepublishAttempt.current[environmentName];
+      // Check right away instead of waiting for the next tick
+      setTimeout(() => republishTick.current(), 0);
+    }
+  };
+
+  const handleUpdateEntireConfig = (environmentName: string, config: FetchedConfig[], label = 'Replace configuration') => {
+    applyEdit(environmentName, label, () => config);
+  };
+
+  // Add a freshly generated environment, with its first published version when there is one
+  const handleAddEnvironment = async ({ name, environmentConfig, storeKeyInKeystore, initial }: NewEnvironment) => {
+    let structureEntry = environmentConfig;
+    if (storeKeyInKeystore) {
+      const { ipnsPrivateKey, ...publicConfig } = environmentConfig;
+      try {
+        setKeystoreSecrets(await storeSecrets({ [environmentConfig.ipnsPublicKey]: { ipnsPrivateKey } }));
+        structureEntry = publicConfig;
+      } catch (err) {
+        // Never drop a key we just published with; keep it in the structure instead
+        setError(`Could not store the ${name} key in the keystore, it was kept in the structure file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    setConfigStructure(prev => prev && { ...prev, [name]: structureEntry });
+
+    if (initial) {
+      setFetchedConfigs(prev => ({ ...prev, [name]: toConfigRows(initial.config) }));
+      setBaselineConfigs(prev => ({ ...prev, [name]: initial.config }));
+      setDraftBases(prev => ({ ...prev, [name]: initial.base }));
+      setCurrentIPFSHashes(prev => ({ ...prev, [name]: initial.base.cid }));
+
+      const recorded = await recordHistory({ kind: 'publish', ...initial.base, note: 'Initial publish', environmentName: name, ipnsName: environmentConfig.ipnsPublicKey });
+      if (recorded) {
+        setHistoryVersions(prev => ({ ...prev, [name]: (prev[name] ?? 0) + 1 }));
+      }
+    }
+
+    setActiveTab(name);
+  };
+
+  // Move an environment to a new key, leaving its live content plus a `__movedTo` marker under the old name
+  const handleRotateKey = async (environmentName: string, reason: string): Promise<KeyRotationResult> => {
+    const fileEntry = configStructure?.[environmentName] as EnvironmentConfig | undefined;
+    // The dialog may have unlocked the keystore after this render, so read the session directly
+    const current = configStructure ? applySecrets(configEnvs, configStructure, getUnlockedSecrets()) : null;
+    const environmentConfig = current?.structure[environmentName] as EnvironmentConfig | undefined;
+    const config = baselineConfigs[environmentName];
+    if (!fileEntry || !environmentConfig) return { success: false, error: `Unknown environment ${environmentName}` };
+    if (!config) return { success: false, error: 'Fetch the environment first, so its live content moves with it' };
+
+    const liveRecord = ipnsRecords[environmentName];
+    const result = await rotateEnvironmentKey(
+      config,
+      environmentName,
+      environmentConfig,
+      resolvePinningSettings(current?.configEnvs, environmentConfig),
+      {
+        oldBase: liveRecord ? { cid: liveRecord.cid, sequence: liveRecord.sequence } : draftBases[environmentName] ?? null,
+        routerOptions: resolveRouterOptions(configEnvs),
+        reason
+      }
+    );
+    if (!result.success || !result.keypair || !result.base || !result.rotation) return result;
+
+    const { keypair, base, rotation } = result;
+    // Keep the new private key wherever the old one lived; a remote signer only holds the retired key
+    const { ipnsSignerUrl: _signerUrl, ipnsSignerAuthorization: _signerAuthorization, ...keyedEntry } = fileEntry;
+    let structureEntry: EnvironmentConfig = {
+      ...keyedEntry,
+      ipnsPublicKey: keypair.ipnsPublicKey,
+      rotatedKeys: [...(fileEntry.rotatedKeys ?? []), rotation]
+    };
+    if (fileEntry.ipnsPrivateKey) {
+      structureEntry = { ...structureEntry, ipnsPrivateKey: keypair.ipnsPrivateKey };
+    } else {
+      try {
+        setKeystoreSecrets(await storeSecrets({ [keypair.ipnsPublicKey]: { ipnsPrivateKey: keypair.ipnsPrivateKey } }));
+      } catch (err) {
+        // Never drop a key we just published with; keep it in the structure instead
+        structureEntry = { ...structureEntry, ipnsPrivateKey: keypair.ipnsPrivateKey };
+        setError(`Could not store the new ${environmentName} key in the keystore, it was kept in the structure file: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+
+    setConfigStructure(prev => prev && { ...prev, [environmentName]: structureEntry });
+    setDraftBases(prev => ({ ...prev, [environmentName]: base }));
+    setCurrentIPFSHashes(prev => ({ ...prev, [environmentName]: base.cid }));
+    setIpnsRecords(({ [environmentName]: _, ...rest }) => rest);
+    setResolveErrors(prev => ({ ...prev, [environmentName]: null }));
+
+    const recorded = await Promise.all([
+      result.markerBase && recordHistory({
+        kind: 'rotate', ...result.markerBase, note: `Moved to ${keypair.ipnsPublicKey}`, environmentName, ipnsName: rotation.ipnsPublicKey
+      }),
+      recordHistory({
+        kind: 'rotate', ...base, note: `Rotated from ${rotation.ipnsPublicKey}${reason ? `: ${reason}` : ''}`, environmentName, ipnsName: keypair.ipnsPublicKey
+      })
+    ]);
+    if (recorded.some(Boolean)) {
+      setHistoryVersions(prev => ({ ...prev, [environmentName]: (prev[environmentName] ?? 0) + 1 }));
+    }
+
+    setIpnsMessages(prev => ({
       ...prev,
-      [environmentName]: config
+      [environmentName]: result.warning
+        ? `⚠️ Rotated to ${keypair.ipnsPublicKey}. ${result.warning}`
+        : `✅ Rotated to ${keypair.ipnsPublicKey}; the old name now points at ${result.markerBase?.cid}`
     }));
+    return result;
+  };
+
+  // Keep a proposal in the target environment's history, whether it was created or received here
+  const handleProposalRecorded = (environmentName: string, proposal: PublishProposal) => {
+    addHistory(environmentName, {
+      kind: 'propose',
+      cid: proposal.contentCid,
+      note: [proposal.author, proposal.note].filter(Boolean).join(': ') || undefined,
+      proposalId: proposal.id
+    });
+  };
+
+  // Publish a reviewed proposal on top of the live record the reviewer compared it with
+  const handleApproveProposal = async (
+    environmentName: string,
+    proposal: PublishProposal,
+    liveBase: PublishBase | null
+  ): Promise<{ success: boolean; message: string }> => {
+    // The dialog may have unlocked the keystore after this render, so read the session directly
+    const current = configStructure ? applySecrets(configEnvs, configStructure, getUnlockedSecrets()) : null;
+    const environmentConfig = current?.structure[environmentName] as EnvironmentConfig | undefined;
+    if (!environmentConfig || !isIPNSConfiguredForEnvironmentConfig(environmentConfig)) {
+      return { success: false, message: `❌ No private key or signer for ${environmentName} in the structure file or keystore` };
+    }
+
+    const { ipfsResult, ipnsResult } = await uploadAndUpdateIPNS(
+      proposal.config,
+      environmentName,
+      environmentConfig,
+      resolvePinningSettings(current?.configEnvs, environmentConfig),
+      uploadConfigToIPFS,
+      { base: liveBase, routerOptions: resolveRouterOptions(configEnvs) }
+    );
+
+    if (!ipfsResult.success || !ipfsResult.ipfsHash) {
+      return { success: false, message: `❌ Upload failed: ${ipfsResult.error}` };
+    }
+    if (ipnsResult?.conflict) {
+      return { success: false, message: `⛔ ${environmentName} changed to ${ipnsResult.conflict.liveCid} during the review. Load the proposal again.` };
+    }
+    if (!ipnsResult?.success || ipnsResult.sequence == null) {
+      return { success: false, message: `❌ IPNS update failed: ${ipnsResult?.error ?? 'Unknown error'}` };
+    }
+
+    const base = { cid: ipfsResult.ipfsHash, sequence: ipnsResult.sequence };
+    // Only replace the reviewer's own draft when it has nothing unpublished in it
+    if (!dirtyEnvironments[environmentName]) {
+      setFetchedConfigs(prev => ({ ...prev, [environmentName]: toConfigRows(proposal.config as Record<string, ConfigValue>, prev[environmentName]) }));
+      clearEditHistory(environmentName);
+    }
+    setDraftBases(prev => ({ ...prev, [environmentName]: base }));
+    setBaselineConfigs(prev => ({ ...prev, [environmentName]: proposal.config }));
+    setCurrentIPFSHashes(prev => ({ ...prev, [environmentName]: base.cid }));
+    setIpnsRecords(({ [environmentName]: _, ...rest }) => rest);
+    addHistory(environmentName, {
+      kind: 'approve',
+      ...base,
+      note: `Approved proposal${proposal.author ? ` by ${proposal.author}` : ''}${proposal.note ? `: ${proposal.note}` : ''}`,
+      proposalId: proposal.id
+    });
+
+    return { success: true, message: `✅ Published ${base.cid} to ${environmentName} (sequence ${base.sequence})` };
+  };
+
+  // Download the structure file as currently loaded, without anything merged in from the keystore
+  const handleExportStructure = () => {
+    downloadFile('structure.json', JSON.stringify({ __env: configEnvs, ...configStructure }, null, 2));
+  };
+
+  // Open the passphrase dialog and resolve once it is submitted or dismissed
+  const promptKeystore = (mode: KeystoreDialogMode) => new Promise<boolean>(resolve => {
+    setKeystorePrompt({ mode, resolve });
+  });
+
+  const requestKeystoreUnlock = async (): Promise<boolean> => {
+    if (keystoreSecrets) return true;
+    if (!keystoreExists) return false;
+    return promptKeystore('unlock');
+  };
+
+  const handleKeystoreSubmit = async (passphrase: string) => {
+    if (!keystorePrompt) return;
+
+    if (keystorePrompt.mode === 'create') {
+      setKeystoreSecrets(await createKeystore(passphrase, fileSecrets?.secrets ?? {}));
+      setKeystoreExists(true);
+    } else {
+      setKeystoreSecrets(await unlockKeystore(passphrase));
+    }
+    keystorePrompt.resolve(true);
+    setKeystorePrompt(null);
+  };
+
+  const handleKeystoreCancel = () => {
+    keystorePrompt?.resolve(false);
+    setKeystorePrompt(null);
+  };
+
+  const handleLockKeystore = () => {
+    lockKeystore();
+    setKeystoreSecrets(null);
+  };
+
+  const handleImportFileSecrets = async () => {
+    if (!fileSecrets || !(await requestKeystoreUnlock())) return;
+    try {
+      setKeystoreSecrets(await storeSecrets(fileSecrets.secrets));
+    } catch (err) {
+      setError(`Could not update the keystore: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleDownloadPublicStructure = () => {
+    if (!fileSecrets) return;
+    const { publicEnvs, publicStructure } = fileSecrets;
+    downloadFile('structure.public.json', JSON.stringify({ __env: publicEnvs, ...publicStructure }, null, 2));
+  };
+
+  const handleForgetKeystore = async () => {
+    if (!window.confirm('Delete the encrypted keystore from this browser? Keys not saved elsewhere are lost.')) return;
+    try {
+      await deleteKeystore();
+      setKeystoreSecrets(null);
+      setKeystoreExists(false);
+    } catch (err) {
+      setError(`Could not delete the keystore: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
   };
 
-  if (!configStructure || !configEnvs) {
+  // Lock again after a period without user interaction
+  useEffect(() => {
+    if (!keystoreSecrets) return;
+
+    const autoLockMs = typeof configEnvs?.keystoreAutoLockMs === 'number' ? configEnvs.keystoreAutoLockMs : DEFAULT_AUTO_LOCK_MS;
+    let timer = setTimeout(handleLockKeystore, autoLockMs);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(handleLockKeystore, autoLockMs);
+    };
+
+    const events = ['pointerdown', 'keydown'] as const;
+    events.forEach(event => window.addEventListener(event, resetTimer));
+    return () => {
+      clearTimeout(timer);
+      events.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [keystoreSecrets, configEnvs]);
+
+  if (!configStructure || !configEnvs || !unlocked) {
     return <ConfigUpload onConfigLoaded={handleConfigLoaded} />;
   }
 
   return (
-    <ConfigTabs
-      configEnvs={configEnvs}
-      configStructure={configStructure}
-      fetchedConfigs={fetchedConfigs}
-      currentIPFSHashes={currentIPFSHashes}
-      loading={loading}
-      activeTab={activeTab}
-      error={error}
-      onTabChange={setActiveTab}
-      onFetch={handleFetch}
-      onUpdateValue={handleUpdateValue}
-      onUpdateKey={handleUpdateKey}
-      onAddKey={handleAddKey}
-      onRemoveKey={handleRemoveKey}
-      onReset={handleReset}
-      onUpdateEntireConfig={handleUpdateEntireConfig}
-    />
+    <>
+      <ConfigTabs
+        configEnvs={unlocked.configEnvs ?? configEnvs}
+        configStructure={unlocked.structure}
+        keystoreExists={keystoreExists}
+        keystoreUnlocked={!!keystoreSecrets}
+        fileHasSecrets={!!fileSecrets && hasSecrets(fileSecrets.secrets)}
+        onUnlockKeystore={requestKeystoreUnlock}
+        onLockKeystore={handleLockKeystore}
+        onCreateKeystore={() => promptKeystore('create')}
+        onImportFileSecrets={handleImportFileSecrets}
+        onDownloadPublicStructure={handleDownloadPublicStructure}
+        onForgetKeystore={handleForgetKeystore}
+        onAddEnvironment={handleAddEnvironment}
+        onRotateKey={handleRotateKey}
+        onProposalRecorded={handleProposalRecorded}
+        onApproveProposal={handleApproveProposal}
+        onExportStructure={handleExportStructure}
+        dirtyEnvironments={dirtyEnvironments}
+        fetchedConfigs={fetchedConfigs}
+        currentIPFSHashes={currentIPFSHashes}
+        ipnsRecords={ipnsRecords}
+        resolveErrors={resolveErrors}
+        draftBases={draftBases}
+        contentVerified={contentVerified}
+        baselineConfigs={baselineConfigs}
+        republishing={republishing}
+        ipnsMessages={ipnsMessages}
+        autoRepublish={autoRepublish}
+        rollingBack={rollingBack}
+        historyVersions={historyVersions}
+        loading={loading}
+        activeTab={activeTab}
+        error={error}
+        onTabChange={setActiveTab}
+        onFetch={handleFetch}
+        onUpdateValue={handleUpdateValue}
+        onUpdateKey={handleUpdateKey}
+        onAddKey={handleAddKey}
+        onRemoveKey={handleRemoveKey}
+        onCopyValue={handleCopyValue}
+        onReset={handleReset}
+        onUpdateEntireConfig={handleUpdateEntireConfig}
+        editHistories={editHistories}
+        onUndo={handleUndo}
+        onRedo={handleRedo}
+        onPublished={handlePublished}
+        onRepublish={handleRepublish}
+        onToggleAutoRepublish={handleToggleAutoRepublish}
+        onRollback={handleRollback}
+      />
+      <KeystoreDialog
+        open={!!keystorePrompt}
+        mode={keystorePrompt?.mode ?? 'unlock'}
+        onSubmit={handleKeystoreSubmit}
+        onCancel={handleKeystoreCancel}
+      />
+    </>
   );
 }
 
@@ -3,46 +3,148 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Settings } from 'lucide-react';
+import { Clock, Download, FileCheck, GitMerge, KeyRound, Pencil, Plus, Settings, Table } from 'lucide-react';
+import { useMemo, useState } from 'react';
 import { EnvironmentTab } from './EnvironmentTab';
+import { ComparisonMatrix } from './ComparisonMatrix';
+import { PromotionWizard } from './PromotionWizard';
+import { KeystorePanel } from './KeystorePanel';
+import { AddEnvironmentDialog, type NewEnvironment } from './AddEnvironmentDialog';
+import { ReviewProposalDialog } from './ReviewProposalDialog';
+import { resolvePromotionExclude } from '@/lib/promotion';
 import type { FetchedConfig } from '@/services/ipnsFetcher';
-import type { EnvironmentConfig, ConfigStructure, ConfigStructureEnv } from '@/services/ipnsUpdater';
+import type { ConfigValue } from '@/lib/configValue';
+import type { EditHistory } from '@/lib/editHistory';
+import { getIPNSRecordTimings, type EnvironmentConfig, type ConfigStructure, type ConfigStructureEnv, type PublishBase } from '@/services/ipnsUpdater';
+import type { VerifiedIPNSRecord } from '@/services/ipnsResolver';
+import type { HistoryEntry } from '@/services/historyStore';
+import { getRotatedKeys, type KeyRotationResult } from '@/services/keyRotation';
+import type { PublishProposal } from '@/services/publishProposal';
 
 interface ConfigTabsProps {
   configEnvs: ConfigStructureEnv["__env"];
   configStructure: ConfigStructure;
   fetchedConfigs: Record<string, FetchedConfig[]>;
+  // Environments whose draft differs from what it was loaded from
+  dirtyEnvironments: Record<string, boolean>;
   currentIPFSHashes: Record<string, string>;
+  ipnsRecords: Record<string, VerifiedIPNSRecord>;
+  resolveErrors: Record<string, string | null>;
+  draftBases: Record<string, PublishBase>;
+  contentVerified: Record<string, boolean>;
+  baselineConfigs: Record<string, Record<string, unknown>>;
+  republishing: Record<string, boolean>;
+  ipnsMessages: Record<string, string | null>;
+  autoRepublish: Record<string, boolean>;
+  rollingBack: Record<string, boolean>;
+  historyVersions: Record<string, number>;
   loading: Record<string, boolean>;
   activeTab: string;
   error: string | null;
+  keystoreExists: boolean;
+  keystoreUnlocked: boolean;
+  fileHasSecrets: boolean;
+  onUnlockKeystore: () => Promise<boolean>;
+  onLockKeystore: () => void;
+  onCreateKeystore: () => void;
+  onImportFileSecrets: () => void;
+  onDownloadPublicStructure: () => void;
+  onForgetKeystore: () => void;
+  onAddEnvironment: (environment: NewEnvironment) => Promise<void>;
+  onRotateKey: (environmentName: string, reason: string) => Promise<KeyRotationResult>;
+  onProposalRecorded: (environmentName: string, proposal: PublishProposal) => void;
+  onApproveProposal: (environmentName: string, proposal: PublishProposal, liveBase: PublishBase | null) => Promise<{ success: boolean; message: string }>;
+  onExportStructure: () => void;
   onTabChange: (tab: string) => void;
   onFetch: (environmentName: string, ipnsKey: string) => void;
-  onUpdateValue: (environmentName: string, key: string, value: string) => void;
-  onUpdateKey: (environmentName: string, oldKey: string, newKey: string) => void;
-  onAddKey: (environmentName: string, key: string, value: string) => void;
-  onRemoveKey: (environmentName: string, key: string) => void;
+  onUpdateValue: (environmentName: string, rowId: string, value: ConfigValue) => void;
+  onUpdateKey: (environmentName: string, rowId: string, newKey: string) => void;
+  onAddKey: (environmentName: string, key: string, value: ConfigValue) => void;
+  onRemoveKey: (environmentName: string, rowId: string) => void;
+  onCopyValue: (environmentName: string, key: string, value: unknown) => void;
   onReset: () => void;
-  onUpdateEntireConfig: (environmentName: string, config: FetchedConfig[]) => void;
+  onUpdateEntireConfig: (environmentName: string, config: FetchedConfig[], label?: string) => void;
+  editHistories: Record<string, EditHistory<FetchedConfig[] | undefined>>;
+  onUndo: (environmentName: string) => void;
+  onRedo: (environmentName: string) => void;
+  onPublished: (environmentName: string, base: PublishBase, config: Record<string, unknown>, note?: string) => void;
+  onRepublish: (environmentName: string) => void;
+  onToggleAutoRepublish: (environmentName: string, enabled: boolean) => void;
+  onRollback: (environmentName: string, entry: HistoryEntry) => void;
+}
+
+function isRecordExpiring(record: VerifiedIPNSRecord, environmentConfig: EnvironmentConfig): boolean {
+  return record.expiresAt - Date.now() <= getIPNSRecordTimings(environmentConfig).republishBeforeMs;
 }
 
 export function ConfigTabs({
   configStructure,
   configEnvs,
   fetchedConfigs,
+  dirtyEnvironments,
   currentIPFSHashes,
+  ipnsRecords,
+  resolveErrors,
+  draftBases,
+  contentVerified,
+  baselineConfigs,
+  republishing,
+  ipnsMessages,
+  autoRepublish,
+  rollingBack,
+  historyVersions,
   loading,
   activeTab,
   error,
+  keystoreExists,
+  keystoreUnlocked,
+  fileHasSecrets,
+  onUnlockKeystore,
+  onLockKeystore,
+  onCreateKeystore,
+  onImportFileSecrets,
+  onDownloadPublicStructure,
+  onForgetKeystore,
+  onAddEnvironment,
+  onRotateKey,
+  onProposalRecorded,
+  onApproveProposal,
+  onExportStructure,
   onTabChange,
   onFetch,
   onUpdateValue,
   onUpdateKey,
   onAddKey,
   onRemoveKey,
+  onCopyValue,
   onReset,
-  onUpdateEntireConfig
+  onUpdateEntireConfig,
+  editHistories,
+  onUndo,
+  onRedo,
+  onPublished,
+  onRepublish,
+  onToggleAutoRepublish,
+  onRollback
 }: ConfigTabsProps) {
+  const [view, setView] = useState<'environments' | 'compare' | 'promote'>('environments');
+  const [addingEnvironment, setAddingEnvironment] = useState(false);
+  const [reviewingProposal, setReviewingProposal] = useState(false);
+  const environmentNames = useMemo(() => Object.keys(configStructure).filter(name => name !== '_env'), [configStructure]);
+  // Retired keys by IPNS name, to flag environments still pointing at one
+  const rotatedKeys = useMemo(() => getRotatedKeys(configStructure), [configStructure]);
+
+  const fetchEnvironment = (envName: string) => onFetch(envName, (configStructure[envName] as EnvironmentConfig).ipnsPublicKey);
+
+  const toggleView = (next: typeof view) => setView(view === next ? 'environments' : next);
+
+  // Hand the promoted draft to the target tab, where the normal publish flow takes over
+  const handlePromote = (targetEnvironment: string, draft: FetchedConfig[]) => {
+    onUpdateEntireConfig(targetEnvironment, draft, 'Apply promotion');
+    onTabChange(targetEnvironment);
+    setView('environments');
+  };
+
   return (
     <div className="w-full space-y-6">
       <Card>
@@ -55,7 +157,7 @@ export function ConfigTabs({
             Manage your IPFS/IPNS configuration across environments
           </CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="flex flex-wrap gap-2">
           <Button 
             variant="outline" 
             onClick={onReset}
@@ -63,13 +165,89 @@ export function ConfigTabs({
           >
             Load Different Configuration
           </Button>
+          <Button
+            variant={view === 'compare' ? 'default' : 'outline'}
+            onClick={() => toggleView('compare')}
+            className="mb-4"
+          >
+            <Table className="h-4 w-4 mr-2" />
+            {view === 'compare' ? 'Back to Environments' : 'Compare Environments'}
+          </Button>
+          <Button
+            variant={view === 'promote' ? 'default' : 'outline'}
+            onClick={() => toggleView('promote')}
+            className="mb-4"
+            disabled={environmentNames.length < 2}
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            {view === 'promote' ? 'Back to Environments' : 'Promote'}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setAddingEnvironment(true)}
+            className="mb-4"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Environment
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setReviewingProposal(true)}
+            className="mb-4"
+          >
+            <FileCheck className="h-4 w-4 mr-2" />
+            Review Proposal
+          </Button>
+          <Button
+            variant="outline"
+            onClick={onExportStructure}
+            className="mb-4"
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export Structure
+          </Button>
+          <div className="w-full">
+            <KeystorePanel
+              keystoreExists={keystoreExists}
+              keystoreUnlocked={keystoreUnlocked}
+              fileHasSecrets={fileHasSecrets}
+              onUnlock={onUnlockKeystore}
+              onLock={onLockKeystore}
+              onCreate={onCreateKeystore}
+              onImportFileSecrets={onImportFileSecrets}
+              onDownloadPublicStructure={onDownloadPublicStructure}
+              onForget={onForgetKeystore}
+            />
+          </div>
         </CardContent>
       </Card>
 
+      {view === 'compare' && (
+        <ComparisonMatrix
+          environmentNames={environmentNames}
+          fetchedConfigs={fetchedConfigs}
+          loading={loading}
+          onFetch={fetchEnvironment}
+          onCopyValue={onCopyValue}
+        />
+      )}
+
+      {view === 'promote' && (
+        <PromotionWizard
+          environmentNames={environmentNames}
+          fetchedConfigs={fetchedConfigs}
+          loading={loading}
+          defaultExclude={resolvePromotionExclude(configEnvs)}
+          onFetch={fetchEnvironment}
+          onApply={handlePromote}
+        />
+      )}
+
+      {view === 'environments' && (
       <Tabs value={activeTab} onValueChange={onTabChange}>
         <div className="overflow-x-auto">
           <TabsList className="inline-flex h-10 items-center justify-start rounded-md bg-muted p-1 text-muted-foreground min-w-full">
-            {Object.keys(configStructure).filter(name => name !== '_env').map((envName) => (
+            {environmentNames.map((envName) => (
               <TabsTrigger 
                 key={envName} 
                 value={envName} 
@@ -81,6 +259,24 @@ export function ConfigTabs({
                     {Object.keys(fetchedConfigs[envName]).length}
                   </Badge>
                 )}
+                {dirtyEnvironments[envName] && (
+                  <Badge variant="outline" className="text-xs" title="Unpublished changes, autosaved in this browser">
+                    <Pencil />
+                    draft
+                  </Badge>
+                )}
+                {ipnsRecords[envName] && isRecordExpiring(ipnsRecords[envName], configStructure[envName] as EnvironmentConfig) && (
+                  <Badge variant="destructive" className="text-xs" title="IPNS record expires soon - republish it">
+                    <Clock />
+                    expiring
+                  </Badge>
+                )}
+                {rotatedKeys[(configStructure[envName] as EnvironmentConfig).ipnsPublicKey] && (
+                  <Badge variant="destructive" className="text-xs" title="This environment still uses a key that was rotated away from">
+                    <KeyRound />
+                    rotated key
+                  </Badge>
+                )}
               </TabsTrigger>
             ))}
           </TabsList>
@@ -95,18 +291,66 @@ export function ConfigTabs({
                   environmentConfig={envConfig as EnvironmentConfig}
                   configStructure={configStructure}
                   fetchedConfig={fetchedConfigs[envName]}
+                  allConfigs={fetchedConfigs}
                   currentIPFSHash={currentIPFSHashes[envName]}
+                  ipnsRecord={ipnsRecords[envName]}
+                  resolveError={resolveErrors[envName]}
+                  publishBase={draftBases[envName]}
+                  contentVerified={contentVerified[envName]}
+                  baselineConfig={baselineConfigs[envName]}
+                  republishing={republishing[envName] || false}
+                  ipnsMessage={ipnsMessages[envName]}
+                  autoRepublish={autoRepublish[envName] || false}
+                  rollingBack={rollingBack[envName] || false}
+                  historyVersion={historyVersions[envName] ?? 0}
                   loading={loading[envName] || false}
-                  onFetch={() => onFetch(envName, (envConfig as EnvironmentConfig).ipnsPublicKey)}
-                  onUpdateValue={(key, value) => onUpdateValue(envName, key, value)}
-                  onUpdateKey={(oldKey, newKey) => onUpdateKey(envName, oldKey, newKey)}
+                  keystoreLocked={keystoreExists && !keystoreUnlocked}
+                  retiredKey={rotatedKeys[(envConfig as EnvironmentConfig).ipnsPublicKey]}
+                  onRequestUnlock={onUnlockKeystore}
+                  onFetch={() => fetchEnvironment(envName)}
+                  onUpdateValue={(rowId, value) => onUpdateValue(envName, rowId, value)}
+                  onUpdateKey={(rowId, newKey) => onUpdateKey(envName, rowId, newKey)}
                   onAddKey={onAddKey}
                   onRemoveKey={onRemoveKey}
-                  onUpdateEntireConfig={(config) => onUpdateEntireConfig(envName, config)}
+                  onUpdateEntireConfig={(config, label) => onUpdateEntireConfig(envName, config, label)}
+                  editHistory={editHistories[envName]}
+                  onUndo={() => onUndo(envName)}
+                  onRedo={() => onRedo(envName)}
+                  onPublished={(base, config, note) => onPublished(envName, base, config, note)}
+                  onRepublish={() => onRepublish(envName)}
+                  onToggleAutoRepublish={(enabled) => onToggleAutoRepublish(envName, enabled)}
+                  onRollback={(entry) => onRollback(envName, entry)}
+                  onRotateKey={(reason) => onRotateKey(envName, reason)}
+                  onProposalCreated={(proposal) => onProposalRecorded(envName, proposal)}
+                  onExportStructure={onExportStructure}
                 />
           </TabsContent>
         ))}
       </Tabs>
+      )}
+
+      <AddEnvironmentDialog
+        open={addingEnvironment}
+        configEnvs={configEnvs}
+        environmentNames={environmentNames}
+        fetchedConfigs={fetchedConfigs}
+        keystoreExists={keystoreExists}
+        onRequestUnlock={onUnlockKeystore}
+        onCreate={onAddEnvironment}
+        onExportStructure={onExportStructure}
+        onClose={() => setAddingEnvironment(false)}
+      />
+
+      <ReviewProposalDialog
+        open={reviewingProposal}
+        configEnvs={configEnvs}
+        configStructure={configStructure}
+        keystoreLocked={keystoreExists && !keystoreUnlocked}
+        onRequestUnlock={onUnlockKeystore}
+        onReviewed={onProposalRecorded}
+        onApprove={onApproveProposal}
+        onClose={() => setReviewingProposal(false)}
+      />
 
       {error && (
         <Alert variant="destructive">
@@ -0,0 +1,220 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ArrowDown, ArrowUp, ChevronDown, ChevronRight, Plus, X } from 'lucide-react';
+import { ConfigValueInput } from './ConfigValueInput';
+import {
+  CONFIG_VALUE_TYPES,
+  convertValue,
+  createRowId,
+  getValueType,
+  type ConfigValue,
+  type ConfigValueType
+} from '@/lib/configValue';
+
+type ConfigObject = { [key: string]: ConfigValue };
+
+interface ConfigTreeEditorProps {
+  value: ConfigValue;
+  onChange: (value: ConfigValue) => void;
+  // Containers nested deeper than this start collapsed
+  expandDepth?: number;
+  depth?: number;
+}
+
+function isContainer(value: ConfigValue): value is ConfigValue[] | ConfigObject {
+  return typeof value === 'object' && value !== null;
+}
+
+function uniqueKey(object: ConfigObject, base = 'newKey'): string {
+  let key = base;
+  for (let i = 2; key in object; i++) key = `${base}${i}`;
+  return key;
+}
+
+// Object entries are rebuilt in order so renames and moves keep the author's key order
+function fromEntries(entries: [string, ConfigValue][]): ConfigObject {
+  return Object.fromEntries(entries);
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+// Grow or shrink the item ids to match an array that changed outside this editor (undo, raw JSON)
+function resizeIds(ids: string[], length: number): string[] {
+  return ids.length >= length
+    ? ids.slice(0, length)
+    : [...ids, ...Array.from({ length: length - ids.length }, createRowId)];
+}
+
+interface NestedKeyInputProps {
+  name: string;
+  siblings: string[];
+  onRename: (name: string) => void;
+}
+
+// Commits on blur or Enter so an in-progress name never collides with a sibling
+function NestedKeyInput({ name, siblings, onRename }: NestedKeyInputProps) {
+  const [draft, setDraft] = useState(name);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => setDraft(name), [name]);
+
+  const commit = () => {
+    const next = draft.trim();
+    if (next === name) {
+      setError(null);
+      return;
+    }
+    if (!next) {
+      setError('Key cannot be empty');
+      return;
+    }
+    if (siblings.includes(next)) {
+      setError(`"${next}" already exists`);
+      return;
+    }
+    setError(null);
+    onRename(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && commit()}
+        aria-invalid={!!error}
+        className="font-mono text-xs h-8"
+      />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
+
+export function ConfigTreeEditor({ value, onChange, expandDepth = 1, depth = 0 }: ConfigTreeEditorProps) {
+  const [expanded, setExpanded] = useState(depth < expandDepth);
+  // Stable identity for array items, so nested editor state follows an item when it moves or a sibling is removed
+  const [itemIds, setItemIds] = useState<string[]>(() => Array.isArray(value) ? value.map(() => createRowId()) : []);
+  if (Array.isArray(value) && itemIds.length !== value.length) {
+    setItemIds(resizeIds(itemIds, value.length));
+  }
+
+  if (!isContainer(value)) {
+    return <ConfigValueInput value={value} onChange={onChange} />;
+  }
+
+  const type = getValueType(value) as 'array' | 'object';
+  const entries: [string, ConfigValue][] = Array.isArray(value)
+    ? value.map((item, index) => [String(index), item])
+    : Object.entries(value);
+
+  const rebuild = (nextEntries: [string, ConfigValue][]) => {
+    onChange(Array.isArray(value) ? nextEntries.map(([, item]) => item) : fromEntries(nextEntries));
+  };
+
+  const updateChild = (index: number, child: ConfigValue) => {
+    rebuild(entries.map((entry, i) => (i === index ? [entry[0], child] : entry)));
+  };
+
+  const renameChild = (index: number, name: string) => {
+    rebuild(entries.map((entry, i) => (i === index ? [name, entry[1]] : entry)));
+  };
+
+  const removeChild = (index: number) => {
+    if (Array.isArray(value)) setItemIds(itemIds.filter((_, i) => i !== index));
+    rebuild(entries.filter((_, i) => i !== index));
+  };
+
+  const moveChild = (index: number, offset: number) => {
+    if (Array.isArray(value)) setItemIds(move(itemIds, index, index + offset));
+    rebuild(move(entries, index, index + offset));
+  };
+
+  const addChild = () => {
+    setExpanded(true);
+    if (Array.isArray(value)) {
+      setItemIds([...itemIds, createRowId()]);
+      onChange([...value, '']);
+    } else {
+      onChange({ ...value, [uniqueKey(value)]: '' });
+    }
+  };
+
+  const handleTypeChange = (nextType: ConfigValueType) => {
+    const conversion = convertValue(value, nextType);
+    if (conversion.lossy && !window.confirm(`Change ${type} to ${nextType}? ${conversion.lossy}.`)) return;
+    onChange(conversion.value);
+  };
+
+  return (
+    <div className="space-y-1 min-w-0">
+      <div className="flex items-center gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => setExpanded(!expanded)}
+          aria-label={expanded ? 'Collapse' : 'Expand'}
+        >
+          {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+        </Button>
+        <select
+          value={type}
+          onChange={(e) => handleTypeChange(e.target.value as ConfigValueType)}
+          className="border-input h-8 rounded-md border bg-transparent px-2 text-sm"
+          aria-label="Value type"
+        >
+          {CONFIG_VALUE_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        <span className="text-xs text-muted-foreground font-mono">
+          {type === 'array' ? `[${entries.length} items]` : `{${entries.length} keys}`}
+        </span>
+        <Button variant="outline" size="sm" className="h-8" onClick={addChild}>
+          <Plus className="h-3 w-3 mr-1" />
+          {type === 'array' ? 'Item' : 'Key'}
+        </Button>
+      </div>
+
+      {expanded && entries.length > 0 && (
+        <div className="border-l-2 border-muted ml-4 pl-3 space-y-2">
+          {entries.map(([name, child], index) => (
+            <div key={type === 'array' ? itemIds[index] ?? index : name} className="grid grid-cols-[140px_1fr_auto] gap-2 items-start">
+              {type === 'array' ? (
+                <span className="text-xs font-mono text-muted-foreground pt-2">[{index}]</span>
+              ) : (
+                <NestedKeyInput
+                  name={name}
+                  siblings={entries.map(([key]) => key).filter(key => key !== name)}
+                  onRename={(next) => renameChild(index, next)}
+                />
+              )}
+              <ConfigTreeEditor
+                value={child}
+                onChange={(next) => updateChild(index, next)}
+                expandDepth={expandDepth}
+                depth={depth + 1}
+              />
+              <div className="flex">
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={index === 0} onClick={() => moveChild(index, -1)} aria-label="Move up">
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={index === entries.length - 1} onClick={() => moveChild(index, 1)} aria-label="Move down">
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => removeChild(index)} aria-label="Remove">
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
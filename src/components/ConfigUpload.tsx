@@ -125,16 +125,31 @@ export function ConfigUpload({ onConfigLoaded }: ConfigUploadProps) {
                   Expected structure:
                   <pre className="mt-2 text-xs bg-muted p-2 rounded">
     {`{
-      "_env": {
-        "pinataJWT": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+      "__env": {
+        "pinningProvider": "pinata", (quicknode | pinata | web3storage | kubo)
+        "pinataJWT": "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...",
+        "gateways": ["https://ipfs.io", "https://dweb.link"], (optional)
+        "delegatedRouters": ["https://delegated-ipfs.dev"], (optional)
+        "gatewayTimeoutMs": 10000, (optional)
+        "promotionExclude": ["*rpc*", "explorerUrl"], (optional, keys kept per environment when promoting)
+        "configSchema": "https://example.com/config.schema.json", (optional, URL, ipfs://CID or inline schema)
+        "keystoreAutoLockMs": 300000 (optional, lock the keystore after this much inactivity)
       },
       "development": {
         "ipnsPublicKey": "k51qzi5uqu5dg7f...",
-        "ipnsPrivateKey": "CAASqAkwggSk..." (optional)
+        "ipnsPrivateKey": "CAASqAkwggSk..." (optional, can live in the keystore instead),
+        "pinningProvider": "kubo", (optional override)
+        "ipnsTtlMs": 60000, (optional, default 1 min)
+        "ipnsLifetimeMs": 31536000000, (optional, default 1 year)
+        "kuboApiUrl": "http://127.0.0.1:5001"
       },
       "production": {
         "ipnsPublicKey": "k51qzi5uqu5dk61...",
-        "ipnsPrivateKey": "CAASqAkwggSk..." (optional)
+        "ipnsSignerUrl": "http://127.0.0.1:8787/sign", (optional, sign through a remote signer instead of a private key)
+        "ipnsSignerAuthorization": "Bearer ...", (optional, can live in the keystore)
+        "protected": true, (optional, requires typed confirmation to publish)
+        "configSchema": { "required": ["chainId"], "properties": { "chainId": { "type": "integer" } } }, (optional)
+        "rotatedKeys": [{ "ipnsPublicKey": "k51qzi5uqu5dj9...", "movedTo": "k51qzi5uqu5dk61...", "rotatedAt": 1767225600000 }] (added by key rotation)
       }
     }`}
               </pre>
@@ -0,0 +1,93 @@
+import { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import {
+  CONFIG_VALUE_TYPES,
+  convertValue,
+  formatValueInput,
+  getValueType,
+  parseValueInput,
+  type ConfigValue,
+  type ConfigValueType
+} from '@/lib/configValue';
+
+interface ConfigValueInputProps {
+  value: ConfigValue;
+  onChange: (value: ConfigValue) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+const SELECT_CLASS = 'border-input h-9 rounded-md border bg-transparent px-2 text-sm';
+
+export function ConfigValueInput({ value, onChange, placeholder = 'Value', className }: ConfigValueInputProps) {
+  const type = getValueType(value);
+  const [text, setText] = useState(() => formatValueInput(value));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  // Follow external changes (raw JSON edits, undo, fetch) without clobbering half-typed input
+  useEffect(() => {
+    const parsed = parseValueInput(text, type);
+    if (parsed.error || JSON.stringify(parsed.value) !== JSON.stringify(value)) {
+      setText(formatValueInput(value));
+      setParseError(null);
+    }
+  }, [value]);
+
+  const handleTypeChange = (nextType: ConfigValueType) => {
+    const conversion = convertValue(value, nextType);
+    setWarning(`Type changed from ${type} to ${nextType}${conversion.lossy ? `: ${conversion.lossy}` : ''}`);
+    setText(formatValueInput(conversion.value));
+    setParseError(null);
+    onChange(conversion.value);
+  };
+
+  const handleTextChange = (nextText: string) => {
+    setText(nextText);
+    const parsed = parseValueInput(nextText, type);
+    if (parsed.error) {
+      setParseError(parsed.error);
+      return;
+    }
+    setParseError(null);
+    onChange(parsed.value!);
+  };
+
+  return (
+    <div className={cn('space-y-1 min-w-0', className)}>
+      <div className="flex gap-2">
+        <select
+          value={type}
+          onChange={(e) => handleTypeChange(e.target.value as ConfigValueType)}
+          className={SELECT_CLASS}
+          aria-label="Value type"
+        >
+          {CONFIG_VALUE_TYPES.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+        {type === 'boolean' ? (
+          <select
+            value={String(value)}
+            onChange={(e) => onChange(e.target.value === 'true')}
+            className={cn(SELECT_CLASS, 'flex-1 font-mono')}
+          >
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+        ) : (
+          <Input
+            value={type === 'null' ? 'null' : text}
+            disabled={type === 'null'}
+            inputMode={type === 'number' ? 'decimal' : undefined}
+            onChange={(e) => handleTextChange(e.target.value)}
+            aria-invalid={!!parseError}
+            className="font-mono text-sm truncate flex-1"
+            placeholder={placeholder}
+          />
+        )}
+      </div>
+      {parseError && <p className="text-xs text-destructive">{parseError} - not saved</p>}
+      {warning && !parseError && <p className="text-xs text-amber-700 dark:text-amber-400">{warning}</p>}
+    </div>
+  );
+}
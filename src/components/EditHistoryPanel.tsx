@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Redo2, Undo2 } from 'lucide-react';
+import type { EditHistory } from '@/lib/editHistory';
+
+interface EditHistoryPanelProps {
+  history?: EditHistory<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+// How many operations to list on each side of the current state
+const VISIBLE_ENTRIES = 5;
+
+export function EditHistoryPanel({ history, onUndo, onRedo }: EditHistoryPanelProps) {
+  const past = history?.past ?? [];
+  const future = history?.future ?? [];
+  const lastDone = past[past.length - 1];
+  const nextRedo = future[0];
+
+  if (!lastDone && !nextRedo) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={onUndo} disabled={!lastDone} title={lastDone ? `Undo: ${lastDone.label} (Ctrl+Z)` : undefined}>
+          <Undo2 className="h-4 w-4 mr-2" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={onRedo} disabled={!nextRedo} title={nextRedo ? `Redo: ${nextRedo.label} (Ctrl+Shift+Z)` : undefined}>
+          <Redo2 className="h-4 w-4 mr-2" />
+          Redo
+        </Button>
+        <span className="text-xs text-muted-foreground">Recent edits</span>
+      </div>
+      <ol className="text-xs space-y-0.5">
+        {future.slice(0, VISIBLE_ENTRIES).reverse().map(entry => (
+          <li key={`future-${entry.timestamp}-${entry.label}`} className="text-muted-foreground line-through">
+            {entry.label}
+          </li>
+        ))}
+        {past.slice(-VISIBLE_ENTRIES).reverse().map((entry, i) => (
+          <li key={`past-${entry.timestamp}-${entry.label}`} className={i === 0 ? 'font-medium' : 'text-muted-foreground'}>
+            {entry.label}
+            <span className="text-muted-foreground"> · {new Date(entry.timestamp).toLocaleTimeString()}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -6,10 +6,35 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Separator } from '@/components/ui/separator';
-import { Download, FileText, Upload, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Download, FileCode, FileText, KeyRound, Send, Upload, Save, ShieldCheck, ShieldAlert, RefreshCw } from 'lucide-react';
+import { downloadFile, formatDuration } from '@/lib/utils';
+import type { VerifiedIPNSRecord } from '@/services/ipnsResolver';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { PublishDialog } from './PublishDialog';
+import { diffConfigs, type DiffChange } from '@/lib/configDiff';
+import { HistoryPanel } from './HistoryPanel';
+import type { HistoryEntry } from '@/services/historyStore';
+import { resolveGatewayOptions } from '@/services/gateways';
 import type { FetchedConfig } from '@/services/ipnsFetcher';
-import { uploadConfigToIPFS, isQuickNodeConfigured } from '@/services/ipfsUploader';
-import { uploadAndUpdateIPNS, type EnvironmentConfig, type ConfigStructure, type ConfigStructureEnv } from '@/services/ipnsUpdater';
+import { uploadConfigToIPFS, isPinningConfigured, getUploadStatusMessage, computeConfigCID } from '@/services/ipfsUploader';
+import { DEFAULT_PINNING_PROVIDER, PINNING_PROVIDERS, resolvePinningSettings } from '@/services/pinningProviders';
+import { getIPNSRecordTimings, isIPNSConfiguredForEnvironmentConfig, uploadAndUpdateIPNS, type EnvironmentConfig, type ConfigStructure, type ConfigStructureEnv, type IPNSConflict, type PublishBase } from '@/services/ipnsUpdater';
+import { resolveRouterOptions } from '@/services/ipnsResolver';
+import { getSchemaReference, loadConfigSchema } from '@/services/configSchema';
+import { groupErrorsByKey, validateSchema, type JsonSchema } from '@/lib/jsonSchema';
+import { formatPath } from '@/lib/configDiff';
+import { generateConfigTypes } from '@/lib/configTypes';
+import { describeTypeChanges, findKeyProblems, toConfigObject, toConfigRows, type ConfigValue } from '@/lib/configValue';
+import { ConfigValueInput } from './ConfigValueInput';
+import { ConfigTreeEditor } from './ConfigTreeEditor';
+import { ConfigKeyInput } from './ConfigKeyInput';
+import { RotateKeyDialog } from './RotateKeyDialog';
+import { EditHistoryPanel } from './EditHistoryPanel';
+import { ProposeDialog } from './ProposeDialog';
+import type { PublishProposal } from '@/services/publishProposal';
+import type { EditHistory } from '@/lib/editHistory';
+import { MIGRATION_MARKER_KEY, type KeyRotation, type KeyRotationResult } from '@/services/keyRotation';
 
 interface EnvironmentTabProps {
   configEnvs: ConfigStructureEnv["__env"];
@@ -18,14 +43,51 @@ interface EnvironmentTabProps {
   environmentConfig: EnvironmentConfig;
   configStructure: ConfigStructure;
   fetchedConfig?: FetchedConfig[];
+  // Every loaded environment's draft, for generating types that fit all of them
+  allConfigs: Record<string, FetchedConfig[]>;
   currentIPFSHash?: string;
+  ipnsRecord?: VerifiedIPNSRecord;
+  resolveError?: string | null;
+  publishBase?: PublishBase;
+  contentVerified?: boolean;
+  baselineConfig?: Record<string, unknown>;
+  republishing: boolean;
+  ipnsMessage?: string | null;
+  autoRepublish: boolean;
+  rollingBack: boolean;
+  historyVersion: number;
   loading: boolean;
+  // A keystore exists but is locked, so keys and credentials may be missing until it is unlocked
+  keystoreLocked: boolean;
+  // Set when the key this environment uses was rotated away from in the structure
+  retiredKey?: KeyRotation;
+  onRequestUnlock: () => Promise<boolean>;
   onFetch: () => void;
-  onUpdateValue?: (key: string, value: string) => void;
-  onUpdateKey?: (oldKey: string, newKey: string) => void;
-  onAddKey: (environmentName: string, key: string, value: string) => void;
-  onRemoveKey: (environmentName: string, key: string) => void;
-  onUpdateEntireConfig: (config: FetchedConfig[]) => void;
+  onUpdateValue?: (rowId: string, value: ConfigValue) => void;
+  onUpdateKey?: (rowId: string, newKey: string) => void;
+  onAddKey: (environmentName: string, key: string, value: ConfigValue) => void;
+  onRemoveKey: (environmentName: string, rowId: string) => void;
+  onUpdateEntireConfig: (config: FetchedConfig[], label?: string) => void;
+  editHistory?: EditHistory<unknown>;
+  onUndo: () => void;
+  onRedo: () => void;
+  onPublished: (base: PublishBase, config: Record<string, unknown>, note?: string) => void;
+  onRepublish: () => void;
+  onToggleAutoRepublish: (enabled: boolean) => void;
+  onRollback: (entry: HistoryEntry) => void;
+  onRotateKey: (reason: string) => Promise<KeyRotationResult>;
+  onProposalCreated: (proposal: PublishProposal) => void;
+  onExportStructure: () => void;
+}
+
+interface PendingPublish {
+  config: Record<string, unknown>;
+  changes: DiffChange[];
+  note?: string;
+  // Publish over a live record that changed since the draft was fetched
+  force?: boolean;
+  expectedCid?: string;
+  cidError?: string;
 }
 
 export function EnvironmentTab({
@@ -34,26 +96,142 @@ export function EnvironmentTab({
   ipnsPublicKey,
   environmentConfig,
   fetchedConfig,
+  allConfigs,
   currentIPFSHash,
+  ipnsRecord,
+  resolveError,
+  publishBase,
+  contentVerified,
+  baselineConfig,
+  republishing,
+  ipnsMessage,
+  autoRepublish,
+  rollingBack,
+  historyVersion,
   loading,
+  keystoreLocked,
+  retiredKey,
+  onRequestUnlock,
   onFetch,
   onAddKey,
   onRemoveKey,
   onUpdateKey,
   onUpdateEntireConfig,
-  onUpdateValue
+  editHistory,
+  onUndo,
+  onRedo,
+  onUpdateValue,
+  onPublished,
+  onRepublish,
+  onToggleAutoRepublish,
+  onRollback,
+  onRotateKey,
+  onProposalCreated,
+  onExportStructure
 }: EnvironmentTabProps) {
   const [newKey, setNewKey] = useState('');
-  const [newValue, setNewValue] = useState('');
+  const [newValue, setNewValue] = useState<ConfigValue>('');
   const [showRawJson, setShowRawJson] = useState(false);
   const [rawJsonValue, setRawJsonValue] = useState('');
   const [uploading, setUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<string | null>(null);
+  // Keeps the reviewed config, so overwriting publishes exactly what was reviewed
+  const [conflict, setConflict] = useState<(IPNSConflict & { note?: string; config: Record<string, unknown> }) | null>(null);
+  const [pendingPublish, setPendingPublish] = useState<PendingPublish | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [schema, setSchema] = useState<JsonSchema | null>(null);
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+  const [publishAfterUnlock, setPublishAfterUnlock] = useState(false);
+  const [rotatingKey, setRotatingKey] = useState(false);
+  const [proposalConfig, setProposalConfig] = useState<Record<string, unknown> | null>(null);
+
+  const recordTimings = getIPNSRecordTimings(environmentConfig);
+  const remainingValidityMs = ipnsRecord ? ipnsRecord.expiresAt - now : undefined;
+  const recordExpiring = remainingValidityMs !== undefined && remainingValidityMs <= recordTimings.republishBeforeMs;
+
+  // Keep the remaining validity countdown fresh
+  React.useEffect(() => {
+    if (!ipnsRecord) return;
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [ipnsRecord]);
+
+  const pinningSettings = resolvePinningSettings(configEnvs, environmentConfig);
+  const pinningConfigured = isPinningConfigured(pinningSettings);
+  const canSignIPNS = isIPNSConfiguredForEnvironmentConfig(environmentConfig);
+  const pinningLabel = PINNING_PROVIDERS[pinningSettings.pinningProvider ?? DEFAULT_PINNING_PROVIDER]?.label ?? 'Pinning';
+  const publishTitle = pinningConfigured
+    ? `Upload to IPFS via ${pinningLabel} and publish via IPNS`
+    : getUploadStatusMessage(environmentName, pinningSettings);
+  // Missing credentials may just be locked away in the keystore
+  const canStartPublish = pinningConfigured || keystoreLocked;
+  // The fetched content is the migration marker left under a rotated name
+  const movedTo = fetchedConfig?.find(row => row.key === MIGRATION_MARKER_KEY)?.value;
+  const publishLabel = pinningConfigured ? 'Upload & Publish' : keystoreLocked ? 'Unlock & Publish' : `Configure ${pinningLabel}`;
+
+  const schemaReference = getSchemaReference(environmentConfig, configEnvs);
+  // Inline schemas are compared by content so a re-render doesn't reload them
+  const schemaReferenceKey = JSON.stringify(schemaReference);
+
+  // Load the schema this environment's config must satisfy
+  React.useEffect(() => {
+    setSchema(null);
+    setSchemaError(null);
+    if (!schemaReference) return;
+
+    let cancelled = false;
+    loadConfigSchema(schemaReference, resolveGatewayOptions(configEnvs)).then(result => {
+      if (cancelled) return;
+      if (result.success && result.schema) {
+        setSchema(result.schema);
+      } else {
+        setSchemaError(result.error ?? 'Could not load schema');
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [schemaReferenceKey]);
+
+  // Schema errors for a config; a configured schema that hasn't loaded counts as an error
+  const getValidationErrors = (config: Record<string, unknown>): string[] => {
+    if (!schemaReference) return [];
+    if (!schema) return [schemaError ?? 'Schema is still loading'];
+    return validateSchema(config, schema).map(error => `${formatPath(error.path) || '(root)'}: ${error.message}`);
+  };
+
+  const editedConfig = React.useMemo((): Record<string, unknown> | null => {
+    if (!showRawJson) {
+      return fetchedConfig ? toConfigObject(fetchedConfig) : null;
+    }
+    try {
+      const parsed = JSON.parse(rawJsonValue);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+    } catch {
+      return null;
+    }
+  }, [showRawJson, fetchedConfig, rawJsonValue]);
 
+  const schemaErrors = React.useMemo(
+    () => schema && editedConfig ? validateSchema(editedConfig, schema) : [],
+    [schema, editedConfig]
+  );
+  const schemaErrorsByKey = groupErrorsByKey(schemaErrors);
+  const schemaBlocksPublish = !!schemaReference && (!schema || schemaErrors.length > 0);
+  // Errors on keys without a form row (missing required keys, root-level rules)
+  const unmatchedSchemaErrors = Object.entries(schemaErrorsByKey)
+    .filter(([key]) => !fetchedConfig?.some(item => item.key === key))
+    .flatMap(([key, messages]) => messages.map(message => key ? `${key}: ${message}` : message));
+
+  const keyProblems = findKeyProblems(fetchedConfig ?? []);
+  const keyProblemCount = Object.keys(keyProblems).length;
+  const publishBlocked = schemaBlocksPublish || keyProblemCount > 0;
+  const newKeyExists = !!fetchedConfig?.some(item => item.key === newKey.trim());
 
   const handleAddKey = () => {
-    if (newKey.trim() && newValue.trim()) {
-      onAddKey(environmentName, newKey.trim(), newValue.trim());
+    if (newKey.trim() && !newKeyExists) {
+      onAddKey(environmentName, newKey.trim(), typeof newValue === 'string' ? newValue.trim() : newValue);
       setNewKey('');
       setNewValue('');
     }
@@ -62,10 +240,7 @@ export function EnvironmentTab({
   // Update raw JSON when fetchedConfig changes
   React.useEffect(() => {
     if (fetchedConfig) {
-      const fetchedConfigJson = JSON.stringify(fetchedConfig.reduce((acc, item) => {
-        acc[item.key as string] = item.value as string;
-        return acc;
-      }, {} as Record<string, unknown>), null, 2);
+      const fetchedConfigJson = JSON.stringify(toConfigObject(fetchedConfig), null, 2);
 
       setRawJsonValue(fetchedConfigJson);
     } else if (!rawJsonValue) {
@@ -76,72 +251,163 @@ export function EnvironmentTab({
 
 
 
+  // Replace the draft with the raw JSON, keeping every value's JSON type; returns warnings for type changes
+  const applyRawJson = (json: string): string[] => {
+    const parsed = JSON.parse(json);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('Top level must be a JSON object');
+    }
+
+    const typeChanges = describeTypeChanges(toConfigObject(fetchedConfig ?? []), parsed);
+    onUpdateEntireConfig(toConfigRows(parsed as Record<string, ConfigValue>, fetchedConfig), 'Edit raw JSON');
+    return typeChanges;
+  };
+
   // Handle raw JSON save (local only)
   const handleSaveRawJson = () => {
     try {
-      const parsed = JSON.parse(rawJsonValue);
-
-      // Clear existing config and add new config locally
-      if (fetchedConfig) {
-        Object.keys(fetchedConfig).forEach(k => onRemoveKey(environmentName, k));
-      }
-
-      Object.entries(parsed).forEach(([k, v]) => {
-        onAddKey(environmentName, k, String(v));
-      });
+      const typeChanges = applyRawJson(rawJsonValue);
 
       // Show local save confirmation
-      setUploadResult('✅ Changes saved locally!');
+      setUploadResult(['✅ Changes saved locally!', ...typeChanges.map(change => `⚠️ ${change}`)].join('\n'));
 
     } catch (error) {
       alert(`Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  // Handle upload to IPFS and update IPNS (merged functionality)
-  const handleUploadAndPublish = async () => {
-    let configToUpload: Record<string, unknown>;
-
+  // Build the object that will be uploaded from the form state or the raw JSON editor
+  const getConfigToUpload = (): Record<string, unknown> | null => {
     // If we have fetchedConfig, use it; otherwise parse from rawJsonValue
     if (fetchedConfig) {
-      configToUpload = fetchedConfig.reduce((acc, item) => {
-
-        acc[item.key as string] = item.value as string;
-        return acc;
-      }, {} as Record<string, unknown>);
-    } else {
-      try {
-        configToUpload = JSON.parse(rawJsonValue);
-      } catch (error) {
-        setUploadResult(`❌ Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
-        return;
+      if (keyProblemCount) {
+        setUploadResult(`❌ Fix the highlighted keys first:\n${Object.values(keyProblems).join('\n')}`);
+        return null;
       }
+      return toConfigObject(fetchedConfig);
+    }
+
+    try {
+      return JSON.parse(rawJsonValue);
+    } catch (error) {
+      setUploadResult(`❌ Invalid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  };
+
+  // Environments that were never fetched are left out rather than treated as empty
+  const handleExportTypes = () => {
+    const configs = Object.fromEntries(
+      Object.entries(allConfigs).map(([name, rows]) => [name, toConfigObject(rows)])
+    );
+    downloadFile('config-types.ts', generateConfigTypes(configs), 'text/typescript');
+  };
+
+  // Editors without the key hand the draft to a key holder instead of publishing it
+  const handleOpenProposeDialog = () => {
+    const config = getConfigToUpload();
+    if (!config) return;
+
+    const validationErrors = getValidationErrors(config);
+    if (validationErrors.length) {
+      setUploadResult(`❌ Config does not match its schema:\n${validationErrors.join('\n')}`);
+      return;
+    }
+    setProposalConfig(config);
+  };
+
+  // Open the publish dialog with the locally computed CID
+  const handleOpenPublishDialog = async () => {
+    // Keys and credentials may live in the keystore; unlock first and continue once they are applied
+    if (keystoreLocked && (!pinningConfigured || !canSignIPNS)) {
+      if (await onRequestUnlock()) setPublishAfterUnlock(true);
+      return;
+    }
+
+    const configToUpload = getConfigToUpload();
+    if (!configToUpload) return;
+
+    const validationErrors = getValidationErrors(configToUpload);
+    if (validationErrors.length) {
+      setUploadResult(`❌ Config does not match its schema:\n${validationErrors.join('\n')}`);
+      return;
+    }
+
+    reviewPublish(configToUpload);
+  };
+
+  // Every publish, forced or not, goes through the review dialog
+  const reviewPublish = async (configToUpload: Record<string, unknown>, options: { note?: string; force?: boolean } = {}) => {
+    setPendingPublish({ config: configToUpload, changes: diffConfigs(baselineConfig ?? {}, configToUpload), ...options });
+    try {
+      const expectedCid = await computeConfigCID(configToUpload, pinningSettings);
+      setPendingPublish(prev => prev?.config === configToUpload ? { ...prev, expectedCid } : prev);
+    } catch (error) {
+      const cidError = error instanceof Error ? error.message : 'Unknown error';
+      setPendingPublish(prev => prev?.config === configToUpload ? { ...prev, cidError } : prev);
+    }
+  };
+
+  // Resume a publish that was waiting for the keystore, now that its secrets are in the props
+  React.useEffect(() => {
+    if (publishAfterUnlock && !keystoreLocked) {
+      setPublishAfterUnlock(false);
+      handleOpenPublishDialog();
+    }
+  }, [publishAfterUnlock, keystoreLocked]);
+
+  // Handle upload to IPFS and update IPNS (merged functionality)
+  const handleUploadAndPublish = async (force = false, configToUpload = getConfigToUpload(), note?: string) => {
+    if (!configToUpload) return;
+
+    const validationErrors = getValidationErrors(configToUpload);
+    if (validationErrors.length) {
+      setUploadResult(`❌ Config does not match its schema:\n${validationErrors.join('\n')}`);
+      setPendingPublish(null);
+      return;
     }
 
     setUploading(true);
     setUploadResult(null);
+    setConflict(null);
 
     try {
       const { ipfsResult, ipnsResult } = await uploadAndUpdateIPNS(
         configToUpload,
         environmentName,
         environmentConfig,
-        configEnvs.quickNodeApiKey as string,
-        uploadConfigToIPFS
+        pinningSettings,
+        uploadConfigToIPFS,
+        {
+          base: publishBase ?? null,
+          force,
+          routerOptions: resolveRouterOptions(configEnvs)
+        }
       );
 
       if (ipfsResult.success && ipfsResult.ipfsHash) {
         let message = `✅ Uploaded to IPFS! Hash: ${ipfsResult.ipfsHash}`;
+        if (ipfsResult.expectedIpfsHash) {
+          message += ipfsResult.cidMatches
+            ? `\n🔒 Matches locally computed CID ${ipfsResult.expectedIpfsHash}`
+            : `\n⛔ Locally computed CID ${ipfsResult.expectedIpfsHash} does not match`;
+        }
 
         if (ipnsResult) {
           if (ipnsResult.success && ipnsResult.ipnsName) {
             message += `\n🔗 IPNS Updated! Name: ${ipnsResult.ipnsName}`;
             message += `\n🌐 Access: https://ipfs.io/ipns/${ipnsResult.ipnsName}`;
+            if (ipnsResult.sequence != null) {
+              onPublished({ cid: ipfsResult.ipfsHash, sequence: ipnsResult.sequence }, configToUpload, note);
+            }
+          } else if (ipnsResult.conflict) {
+            setConflict({ ...ipnsResult.conflict, note, config: configToUpload });
+            message += `\n⛔ IPNS not updated: the live record changed since this draft was fetched`;
           } else {
             message += `\n❌ IPNS update failed: ${ipnsResult.error}`;
           }
         } else {
-          message += `\n⚠️ No IPNS private key found - IPFS upload only`;
+          message += `\n⚠️ No IPNS private key or signer found - IPFS upload only`;
         }
 
         setUploadResult(message);
@@ -152,6 +418,7 @@ export function EnvironmentTab({
       setUploadResult(`❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setUploading(false);
+      setPendingPublish(null);
     }
   };
 
@@ -159,11 +426,10 @@ export function EnvironmentTab({
   const handleUpdateJson = (json: string) => {
 
     try {
-
-      const parsedJson = JSON.parse(json);
-      const nextFetchedConfig = Object.entries(parsedJson).map(([k, v]) => ({ key: k, value: v as string }));
-
-      onUpdateEntireConfig(nextFetchedConfig);
+      const typeChanges = applyRawJson(json);
+      if (typeChanges.length) {
+        setUploadResult(typeChanges.map(change => `⚠️ ${change}`).join('\n'));
+      }
     } catch (error) {
       console.error("Error updating JSON", error);
     }
@@ -190,7 +456,22 @@ export function EnvironmentTab({
       <Card>
         <CardHeader>
           <CardTitle className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
-            <span className="text-lg font-semibold">{environmentName} Environment</span>
+            <span className="text-lg font-semibold flex items-center gap-2">
+              {environmentName} Environment
+              {fetchedConfig && contentVerified !== undefined && (
+                contentVerified ? (
+                  <Badge variant="secondary" title="Content hash-checked against its CID">
+                    <ShieldCheck />
+                    Verified
+                  </Badge>
+                ) : (
+                  <Badge variant="outline" title="Content was served by a gateway without CID verification">
+                    <ShieldAlert />
+                    Unverified
+                  </Badge>
+                )
+              )}
+            </span>
             <div className="flex flex-col sm:flex-row gap-2">
               <Button
                 onClick={onFetch}
@@ -211,14 +492,36 @@ export function EnvironmentTab({
                 {showRawJson ? 'Hide' : 'Show'} JSON
               </Button>
               <Button
-                onClick={handleUploadAndPublish}
-                disabled={uploading || !isQuickNodeConfigured(configEnvs.quickNodeApiKey as string) || (showRawJson && !rawJsonValue.trim())}
+                onClick={handleOpenPublishDialog}
+                disabled={uploading || !canStartPublish || publishBlocked || (showRawJson && !rawJsonValue.trim())}
                 size="sm"
                 className="w-full sm:w-auto"
-                title={!isQuickNodeConfigured(configEnvs.quickNodeApiKey as string) ? 'Add quickNodeApiKey to _env section in config or create .env file with VITE_QUICKNODE_API_KEY' : 'Upload to IPFS and publish via IPNS'}
+                title={publishTitle}
               >
                 <Upload className="h-4 w-4 mr-2" />
-                {uploading ? 'Publishing...' : (isQuickNodeConfigured(configEnvs.quickNodeApiKey as string) ? 'Upload & Publish' : 'Configure QuickNode')}
+                {uploading ? 'Publishing...' : publishLabel}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleOpenProposeDialog}
+                disabled={publishBlocked || (showRawJson && !rawJsonValue.trim())}
+                size="sm"
+                className="w-full sm:w-auto"
+                title="Export the draft for a key holder to review and publish"
+              >
+                <Send className="h-4 w-4 mr-2" />
+                Propose
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handleExportTypes}
+                disabled={!fetchedConfig}
+                size="sm"
+                className="w-full sm:w-auto"
+                title="Download a TypeScript interface and Zod schema that fit every loaded environment"
+              >
+                <FileCode className="h-4 w-4 mr-2" />
+                Export types
               </Button>
             </div>
           </CardTitle>
@@ -229,15 +532,139 @@ export function EnvironmentTab({
             </code>
             {currentIPFSHash && (
               <>
-                <div className="text-sm">Current IPFS Hash:</div>
+                <div className="text-sm flex items-center gap-2">
+                  Current IPFS Hash:
+                  {ipnsRecord && (
+                    <Badge variant="secondary" title={`Signature verified via ${ipnsRecord.source}`}>
+                      <ShieldCheck />
+                      Verified record
+                    </Badge>
+                  )}
+                </div>
                 <code className="text-xs bg-muted px-2 py-1 rounded block font-mono break-all overflow-wrap-anywhere">
                   {currentIPFSHash}
                 </code>
               </>
             )}
+            {ipnsRecord && remainingValidityMs !== undefined && (
+              <div className="text-xs flex flex-wrap gap-x-4 gap-y-1">
+                <span>Sequence: <code className="font-mono">{ipnsRecord.sequence.toString()}</code></span>
+                <span title={`Expires ${new Date(ipnsRecord.expiresAt).toLocaleString()}`} className={recordExpiring ? 'text-destructive font-medium' : undefined}>
+                  {remainingValidityMs > 0 ? `Valid for: ${formatDuration(remainingValidityMs)}` : 'Expired'}
+                </span>
+                <span>TTL: {formatDuration(ipnsRecord.ttlMs)}</span>
+              </div>
+            )}
+            <div className="text-xs text-muted-foreground">
+              New records: TTL {formatDuration(recordTimings.ttlMs)}, lifetime {formatDuration(recordTimings.lifetimeMs)}, republish {formatDuration(recordTimings.republishBeforeMs)} before expiry
+            </div>
+            {canSignIPNS && (
+              <div className="flex flex-wrap items-center gap-3">
+                <Button
+                  variant={recordExpiring ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={onRepublish}
+                  disabled={republishing}
+                  title="Re-sign the current CID with a higher sequence to extend its validity"
+                >
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  {republishing ? 'Republishing...' : 'Republish'}
+                </Button>
+                <label className="text-xs flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={autoRepublish}
+                    onChange={(e) => onToggleAutoRepublish(e.target.checked)}
+                  />
+                  Auto-republish before expiry while this page is open
+                </label>
+              </div>
+            )}
+            {(canSignIPNS || keystoreLocked) && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRotatingKey(true)}
+                title="Move this environment to a new IPNS key, e.g. after its private key leaked"
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                Rotate key
+              </Button>
+            )}
+            {retiredKey && (
+              <div className="text-xs text-destructive flex items-start gap-1 break-all">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                This key was rotated to {retiredKey.movedTo} on {new Date(retiredKey.rotatedAt).toLocaleString()}
+                {retiredKey.reason ? ` (${retiredKey.reason})` : ''} - point this environment at the new key.
+              </div>
+            )}
+            {movedTo !== undefined && !retiredKey && (
+              <div className="text-xs text-destructive flex items-start gap-1 break-all">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                The published content carries a "{MIGRATION_MARKER_KEY}" marker: {JSON.stringify(movedTo)}
+              </div>
+            )}
+            {!!environmentConfig.rotatedKeys?.length && (
+              <div className="text-xs text-muted-foreground space-y-1">
+                <div>Previous keys:</div>
+                {environmentConfig.rotatedKeys.map(rotation => (
+                  <div key={rotation.ipnsPublicKey} className="break-all">
+                    <code className="font-mono">{rotation.ipnsPublicKey}</code>
+                    {' '}retired {new Date(rotation.rotatedAt).toLocaleString()}{rotation.reason ? ` - ${rotation.reason}` : ''}
+                  </div>
+                ))}
+              </div>
+            )}
+            {schemaReference && (
+              <div className={`text-xs ${schemaBlocksPublish ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {schemaError
+                  ? schemaError
+                  : !schema
+                    ? 'Loading schema...'
+                    : schemaErrors.length
+                      ? `Schema: ${schemaErrors.length} validation error(s) - publishing is blocked`
+                      : `Schema: valid${typeof schemaReference === 'string' ? ` (${schemaReference})` : ''}`}
+              </div>
+            )}
+            {ipnsMessage && (
+              <div className="text-xs font-mono break-all">{ipnsMessage}</div>
+            )}
+            {resolveError && (
+              <div className="text-xs text-destructive flex items-start gap-1 break-all">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                Could not verify the IPNS record: {resolveError}
+              </div>
+            )}
           </CardDescription>
         </CardHeader>
         <CardContent>
+          {conflict && (
+            <Alert variant="destructive" className="mb-4">
+              <ShieldAlert />
+              <AlertTitle>Remote changed</AlertTitle>
+              <AlertDescription>
+                <p className="break-all">
+                  Someone published {environmentName} since this draft was fetched.
+                  Expected <code className="font-mono">{conflict.expectedCid ?? 'no record'}</code>,
+                  live record is <code className="font-mono">{conflict.liveCid}</code> (sequence {conflict.liveSequence.toString()}).
+                </p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  <Button size="sm" variant="outline" onClick={() => { setConflict(null); onFetch(); }}>
+                    Reload remote (discard my edits)
+                  </Button>
+                  <Button size="sm" variant="destructive" disabled={uploading} onClick={() => reviewPublish(conflict.config, { note: conflict.note, force: true })}>
+                    Overwrite anyway
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => setConflict(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <EditHistoryPanel history={editHistory} onUndo={onUndo} onRedo={onRedo} />
+
           {uploadResult && (
             <div className="mb-4 p-3 rounded-lg bg-muted text-sm font-mono whitespace-pre-wrap">
               {uploadResult}
@@ -265,69 +692,48 @@ export function EnvironmentTab({
                 <Label className="text-sm font-medium text-muted-foreground">Actions</Label>
               </div>
 
-              <div className="space-y-2">
-                {fetchedConfig?.map((configField, index) => {
-
-
-                  let value = configField.value;
+              {unmatchedSchemaErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <ShieldAlert />
+                  <AlertTitle>Config does not match its schema</AlertTitle>
+                  <AlertDescription>
+                    <ul>
+                      {unmatchedSchemaErrors.map((message, i) => <li key={i}>{message}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
 
-                  // Only try to parse if it's actually a string
-                  if (typeof configField.value === 'string' &&configField.value.includes('{')) {
-                    try {
-                      value = JSON.parse(configField.value);
-
-                    } catch (error) {
-                      console.log("error", error)
-                    }
-                  } else {
-                    // It's already an object/array/primitive, no need to parse
-                    value = JSON.stringify(configField.value);
-                  }
+              <div className="space-y-2">
+                {fetchedConfig?.map((configField) => {
+                  const rowErrors = schemaErrorsByKey[configField.key];
 
                   return (
-                    <div key={index} className="grid grid-cols-1 md:grid-cols-[320px_1fr_120px] gap-3 items-center px-1">
-                      <Input
-                        value={configField.key}
-                        onChange={(e) => {
-                          const newKey = e.target.value;
-
-                          if (newKey !== configField.key && newKey.trim()) {
-
-
-                            onUpdateKey?.(configField.key, newKey);
-                          }
-                        }}
-                        className="font-mono text-sm truncate"
-                        placeholder="Key name"
-                      />
-                      <Input
-                        value={String(value)}
-                        onChange={(e) => {
-                          const value = e.target.value;
-
-                          try {
-                            const parsedValue = JSON.parse(value);
-
-
-
-                            onUpdateValue?.(configField.key, parsedValue);
-                          } catch (error) {
-                            onUpdateValue?.(configField.key, value);
-                          }
-                        }}
-                        className="font-mono text-sm truncate"
-
-
-                        placeholder="Value"
-                      />
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => onRemoveKey(environmentName, configField.key)}
-                        className="w-full"
-                      >
-                        Remove
-                      </Button>
+                    <div key={configField.id} className="space-y-1">
+                      <div className="grid grid-cols-1 md:grid-cols-[320px_1fr_120px] gap-3 items-start px-1">
+                        <ConfigKeyInput
+                          value={configField.key}
+                          error={keyProblems[configField.id]}
+                          onCommit={(key) => onUpdateKey?.(configField.id, key)}
+                        />
+                        <ConfigTreeEditor
+                          value={configField.value}
+                          onChange={(value) => onUpdateValue?.(configField.id, value)}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onRemoveKey(environmentName, configField.id)}
+                          className="w-full"
+                        >
+                          Remove
+                        </Button>
+                      </div>
+                      {rowErrors && (
+                        <ul className="px-1 text-xs text-destructive">
+                          {rowErrors.map((message, i) => <li key={i}>{message}</li>)}
+                        </ul>
+                      )}
                     </div>
                   )
                 })}
@@ -344,15 +750,15 @@ export function EnvironmentTab({
                     onChange={(e) => setNewKey(e.target.value)}
                     className="font-mono text-sm"
                   />
-                  <Input
+                  <ConfigValueInput
                     placeholder="Enter value"
                     value={newValue}
-                    onChange={(e) => setNewValue(e.target.value)}
-                    className="font-mono text-sm"
+                    onChange={setNewValue}
                   />
                   <Button
                     onClick={handleAddKey}
-                    disabled={!newKey.trim() || !newValue.trim()}
+                    disabled={!newKey.trim() || newKeyExists}
+                    title={newKeyExists ? `${newKey.trim()} already exists` : undefined}
                     className="w-full"
                   >
                     Add
@@ -377,13 +783,13 @@ export function EnvironmentTab({
                   </Button>
                   {rawJsonValue.trim() && (
                     <Button
-                      onClick={handleUploadAndPublish}
-                      disabled={uploading || !isQuickNodeConfigured(configEnvs.quickNodeApiKey as string)}
+                      onClick={handleOpenPublishDialog}
+                      disabled={uploading || !canStartPublish || publishBlocked}
                       size="sm"
-                      title={!isQuickNodeConfigured(configEnvs.quickNodeApiKey as string) ? 'Add quickNodeApiKey to _env section in config or create .env file with VITE_QUICKNODE_API_KEY' : 'Upload to IPFS and publish via IPNS'}
+                      title={publishTitle}
                     >
                       <Upload className="h-4 w-4 mr-2" />
-                      {uploading ? 'Publishing...' : (isQuickNodeConfigured(configEnvs.quickNodeApiKey as string) ? 'Upload & Publish' : 'Configure QuickNode')}
+                      {uploading ? 'Publishing...' : publishLabel}
                     </Button>
                   )}
                 </div>
@@ -394,10 +800,68 @@ export function EnvironmentTab({
                 className="font-mono text-sm min-h-[400px] resize-y"
                 placeholder={fetchedConfig ? "Edit JSON configuration here..." : "Paste or create JSON configuration here..."}
               />
+              {schemaErrors.length > 0 && (
+                <ul className="text-xs text-destructive font-mono space-y-0.5">
+                  {schemaErrors.map((error, i) => (
+                    <li key={i}>{formatPath(error.path) || '(root)'}: {error.message}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
         </CardContent>
       </Card>
+
+      <HistoryPanel
+        ipnsName={ipnsPublicKey}
+        refreshKey={historyVersion}
+        currentCid={currentIPFSHash}
+        gatewayOptions={resolveGatewayOptions(configEnvs)}
+        canRollback={canSignIPNS}
+        rollingBack={rollingBack}
+        onRollback={onRollback}
+      />
+
+      <RotateKeyDialog
+        open={rotatingKey}
+        environmentName={environmentName}
+        hasBaseline={!!baselineConfig}
+        keystoreLocked={keystoreLocked}
+        onRequestUnlock={onRequestUnlock}
+        onRotate={onRotateKey}
+        onExportStructure={onExportStructure}
+        onClose={() => setRotatingKey(false)}
+      />
+
+      <ProposeDialog
+        open={!!proposalConfig}
+        environmentName={environmentName}
+        ipnsName={ipnsPublicKey}
+        config={proposalConfig}
+        baseline={baselineConfig}
+        base={publishBase}
+        pinningSettings={pinningSettings}
+        onCreated={onProposalCreated}
+        onClose={() => setProposalConfig(null)}
+      />
+
+      <PublishDialog
+        open={!!pendingPublish}
+        environmentName={environmentName}
+        providerLabel={pinningLabel}
+        expectedCid={pendingPublish?.expectedCid}
+        cidError={pendingPublish?.cidError}
+        baseCid={publishBase?.cid}
+        overwriteCid={pendingPublish?.force ? conflict?.liveCid : undefined}
+        changes={pendingPublish?.changes ?? []}
+        hasBaseline={!!baselineConfig}
+        isProtected={!!environmentConfig.protected}
+        publishing={uploading}
+        note={pendingPublish?.note ?? ''}
+        onNoteChange={(note) => setPendingPublish(prev => prev && { ...prev, note })}
+        onConfirm={() => pendingPublish && handleUploadAndPublish(!!pendingPublish.force, pendingPublish.config, pendingPublish.note)}
+        onCancel={() => !uploading && setPendingPublish(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Eye, History, RotateCcw } from 'lucide-react';
+import { fetchFromIPFS } from '@/services/ipnsFetcher';
+import { listHistory, type HistoryEntry } from '@/services/historyStore';
+import type { GatewayOptions } from '@/services/gateways';
+
+interface HistoryPanelProps {
+  ipnsName: string;
+  refreshKey: number;
+  currentCid?: string;
+  gatewayOptions: GatewayOptions;
+  canRollback: boolean;
+  rollingBack: boolean;
+  onRollback: (entry: HistoryEntry) => void;
+}
+
+const KIND_LABELS: Record<HistoryEntry['kind'], string> = {
+  fetch: 'Fetched',
+  publish: 'Published',
+  rollback: 'Rolled back',
+  republish: 'Republished',
+  rotate: 'Key rotated',
+  propose: 'Proposed',
+  approve: 'Approved'
+};
+
+export function HistoryPanel({
+  ipnsName,
+  refreshKey,
+  currentCid,
+  gatewayOptions,
+  canRollback,
+  rollingBack,
+  onRollback
+}: HistoryPanelProps) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [viewing, setViewing] = useState<HistoryEntry | null>(null);
+  const [viewContent, setViewContent] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    listHistory(ipnsName)
+      .then(result => !cancelled && setEntries(result))
+      .catch(err => !cancelled && setError(err instanceof Error ? err.message : 'Could not load history'));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ipnsName, refreshKey]);
+
+  const handleView = async (entry: HistoryEntry) => {
+    setViewing(entry);
+    setViewContent(null);
+
+    const result = await fetchFromIPFS(entry.cid, gatewayOptions);
+    setViewContent(result.success ? JSON.stringify(result.data, null, 2) : `❌ ${result.error}`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <History className="h-4 w-4" />
+          Version History
+        </CardTitle>
+        <CardDescription>
+          Every version fetched or published from this browser
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {!error && entries.length === 0 && (
+          <p className="text-sm text-muted-foreground">No history recorded yet.</p>
+        )}
+
+        <div className="space-y-2">
+          {entries.map(entry => (
+            <div key={entry.id} className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-2 items-center border rounded-md px-3 py-2">
+              <div className="space-y-1 min-w-0">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant={entry.kind === 'fetch' || entry.kind === 'propose' ? 'outline' : 'secondary'}>{KIND_LABELS[entry.kind]}</Badge>
+                  <span>{new Date(entry.timestamp).toLocaleString()}</span>
+                  {entry.sequence != null && <span className="text-muted-foreground">seq {entry.sequence.toString()}</span>}
+                  {entry.cid === currentCid && <Badge>current</Badge>}
+                </div>
+                <code className="text-xs font-mono break-all block">{entry.cid}</code>
+                {entry.note && <p className="text-xs text-muted-foreground">{entry.note}</p>}
+              </div>
+              <div className="flex gap-2">
+                {/* A proposal's content was never uploaded, so there is nothing to view or point the record at */}
+                {entry.kind !== 'propose' && (
+                  <Button variant="outline" size="sm" onClick={() => handleView(entry)}>
+                    <Eye className="h-4 w-4 mr-1" />
+                    View
+                  </Button>
+                )}
+                {canRollback && entry.kind !== 'propose' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={rollingBack || entry.cid === currentCid}
+                    onClick={() => onRollback(entry)}
+                    title="Re-point the IPNS record to this version without re-uploading"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Rollback
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+
+      <Dialog open={!!viewing} onOpenChange={(open) => !open && setViewing(null)}>
+        <DialogContent className="sm:max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{viewing && KIND_LABELS[viewing.kind]} version</DialogTitle>
+            <DialogDescription className="font-mono break-all">{viewing?.cid}</DialogDescription>
+          </DialogHeader>
+          <pre className="text-xs bg-muted p-3 rounded max-h-[60vh] overflow-auto whitespace-pre-wrap break-all">
+            {viewContent ?? 'Fetching and verifying content...'}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
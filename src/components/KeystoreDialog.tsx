@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { KeyRound } from 'lucide-react';
+
+export type KeystoreDialogMode = 'unlock' | 'create';
+
+interface KeystoreDialogProps {
+  open: boolean;
+  mode: KeystoreDialogMode;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 12;
+
+export function KeystoreDialog({ open, mode, onSubmit, onCancel }: KeystoreDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+
+  // Never keep a passphrase around between prompts
+  useEffect(() => {
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  }, [open, mode]);
+
+  const creating = mode === 'create';
+  const valid = creating
+    ? passphrase.length >= MIN_PASSPHRASE_LENGTH && passphrase === confirmation
+    : passphrase.length > 0;
+
+  const handleSubmit = async () => {
+    if (!valid) return;
+    setWorking(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !working && onCancel()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            {creating ? 'Create keystore' : 'Unlock keystore'}
+          </DialogTitle>
+          <DialogDescription>
+            {creating
+              ? 'Private keys and provider credentials are encrypted with this passphrase and stored in this browser only. It cannot be recovered.'
+              : 'Enter the keystore passphrase to use the stored keys. The keystore locks again after a period of inactivity.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSubmit();
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="keystore-passphrase">Passphrase</Label>
+            <Input
+              id="keystore-passphrase"
+              type="password"
+              autoFocus
+              autoComplete={creating ? 'new-password' : 'current-password'}
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+            />
+            {creating && passphrase.length > 0 && passphrase.length < MIN_PASSPHRASE_LENGTH && (
+              <p className="text-xs text-muted-foreground">Use at least {MIN_PASSPHRASE_LENGTH} characters.</p>
+            )}
+          </div>
+          {creating && (
+            <div className="space-y-1">
+              <Label htmlFor="keystore-confirmation">Repeat passphrase</Label>
+              <Input
+                id="keystore-confirmation"
+                type="password"
+                autoComplete="new-password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+              />
+            </div>
+          )}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onCancel} disabled={working}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!valid || working}>
+              {working ? 'Working...' : creating ? 'Create' : 'Unlock'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
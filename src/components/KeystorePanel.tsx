@@ -0,0 +1,87 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Download, KeyRound, Lock, LockOpen, Trash2, Upload } from 'lucide-react';
+
+interface KeystorePanelProps {
+  keystoreExists: boolean;
+  keystoreUnlocked: boolean;
+  fileHasSecrets: boolean;
+  onUnlock: () => void;
+  onLock: () => void;
+  onCreate: () => void;
+  onImportFileSecrets: () => void;
+  onDownloadPublicStructure: () => void;
+  onForget: () => void;
+}
+
+export function KeystorePanel({
+  keystoreExists,
+  keystoreUnlocked,
+  fileHasSecrets,
+  onUnlock,
+  onLock,
+  onCreate,
+  onImportFileSecrets,
+  onDownloadPublicStructure,
+  onForget
+}: KeystorePanelProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <KeyRound className="h-4 w-4" />
+        Keystore:
+        {!keystoreExists ? (
+          <Badge variant="outline">not set up</Badge>
+        ) : keystoreUnlocked ? (
+          <Badge variant="secondary"><LockOpen />unlocked</Badge>
+        ) : (
+          <Badge variant="outline"><Lock />locked</Badge>
+        )}
+        {fileHasSecrets && (
+          <Badge variant="destructive" title="The loaded structure file contains private keys or API credentials in plaintext">
+            plaintext secrets in file
+          </Badge>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {!keystoreExists && (
+          <Button variant="outline" size="sm" onClick={onCreate}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            {fileHasSecrets ? 'Create keystore from file secrets' : 'Create keystore'}
+          </Button>
+        )}
+        {keystoreExists && !keystoreUnlocked && (
+          <Button variant="outline" size="sm" onClick={onUnlock}>
+            <LockOpen className="h-4 w-4 mr-2" />
+            Unlock
+          </Button>
+        )}
+        {keystoreUnlocked && (
+          <Button variant="outline" size="sm" onClick={onLock}>
+            <Lock className="h-4 w-4 mr-2" />
+            Lock now
+          </Button>
+        )}
+        {keystoreExists && fileHasSecrets && (
+          <Button variant="outline" size="sm" onClick={onImportFileSecrets}>
+            <Upload className="h-4 w-4 mr-2" />
+            Move file secrets into keystore
+          </Button>
+        )}
+        {fileHasSecrets && (
+          <Button variant="outline" size="sm" onClick={onDownloadPublicStructure} title="Download the structure file without private keys or credentials">
+            <Download className="h-4 w-4 mr-2" />
+            Download public structure
+          </Button>
+        )}
+        {keystoreExists && (
+          <Button variant="ghost" size="sm" onClick={onForget}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Forget keystore
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
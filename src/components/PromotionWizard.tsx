@@ -0,0 +1,213 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ArrowRight, Download, GitMerge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  applyPromotion,
+  buildPromotionCandidates,
+  type PromotionCandidate
+} from '@/lib/promotion';
+import type { FetchedConfig } from '@/services/ipnsFetcher';
+
+interface PromotionWizardProps {
+  environmentNames: string[];
+  fetchedConfigs: Record<string, FetchedConfig[]>;
+  loading: Record<string, boolean>;
+  defaultExclude: string[];
+  onFetch: (environmentName: string) => void;
+  onApply: (targetEnvironment: string, draft: FetchedConfig[]) => void;
+}
+
+const STATUS_STYLES: Record<PromotionCandidate['status'], string> = {
+  added: 'border-l-green-600',
+  removed: 'border-l-red-600',
+  changed: 'border-l-amber-500',
+  same: 'border-l-muted'
+};
+
+function formatValue(value: unknown): string {
+  return value === undefined ? '—' : JSON.stringify(value);
+}
+
+// Keys worth carrying over by default: anything that differs and is not environment specific
+function defaultSelection(candidates: PromotionCandidate[]): Set<string> {
+  return new Set(candidates
+    .filter(candidate => !candidate.excluded && (candidate.status === 'added' || candidate.status === 'changed'))
+    .map(candidate => candidate.key));
+}
+
+export function PromotionWizard({
+  environmentNames,
+  fetchedConfigs,
+  loading,
+  defaultExclude,
+  onFetch,
+  onApply
+}: PromotionWizardProps) {
+  const [step, setStep] = useState<'select' | 'review'>('select');
+  const [source, setSource] = useState(environmentNames[0] ?? '');
+  const [target, setTarget] = useState(environmentNames[1] ?? '');
+  const [excludeText, setExcludeText] = useState(defaultExclude.join(', '));
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const exclude = useMemo(
+    () => excludeText.split(',').map(pattern => pattern.trim()).filter(Boolean),
+    [excludeText]
+  );
+  const sourceConfig = fetchedConfigs[source];
+  const targetConfig = fetchedConfigs[target];
+
+  const candidates = useMemo(
+    () => sourceConfig && targetConfig ? buildPromotionCandidates(sourceConfig, targetConfig, exclude) : [],
+    [sourceConfig, targetConfig, exclude]
+  );
+  const differing = candidates.filter(candidate => candidate.status !== 'same');
+
+  const canReview = !!sourceConfig && !!targetConfig && source !== target;
+
+  const handleReview = () => {
+    setSelected(defaultSelection(candidates));
+    setStep('review');
+  };
+
+  const toggleKey = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!sourceConfig || !targetConfig) return;
+    onApply(target, applyPromotion(sourceConfig, targetConfig, selected));
+    setStep('select');
+  };
+
+  const renderEnvironmentSelect = (id: string, label: string, value: string, onChange: (name: string) => void) => (
+    <div className="space-y-1 flex-1">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="flex gap-2">
+        <select
+          id={id}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="border-input h-9 w-full rounded-md border bg-transparent px-3 text-sm"
+        >
+          {environmentNames.map(name => <option key={name} value={name}>{name}</option>)}
+        </select>
+        {value && !fetchedConfigs[value] && (
+          <Button variant="outline" size="sm" disabled={loading[value]} onClick={() => onFetch(value)}>
+            <Download className="h-4 w-4 mr-1" />
+            {loading[value] ? 'Fetching...' : 'Fetch'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5" />
+          Promote Configuration
+        </CardTitle>
+        <CardDescription>
+          Carry selected keys from one environment's draft into another's. Nothing is published until you publish the target.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {step === 'select' ? (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+              {renderEnvironmentSelect('promote-source', 'From', source, setSource)}
+              <ArrowRight className="hidden sm:block h-5 w-5 mb-2 text-muted-foreground" />
+              {renderEnvironmentSelect('promote-target', 'To', target, setTarget)}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="promote-exclude">Environment-specific keys (never promoted by default)</Label>
+              <Input
+                id="promote-exclude"
+                value={excludeText}
+                onChange={(e) => setExcludeText(e.target.value)}
+                placeholder="*rpc*, explorerUrl"
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma-separated key patterns, case-insensitive, <code>*</code> matches anything.
+                Set <code>__env.promotionExclude</code> in the structure file to change the default.
+              </p>
+            </div>
+            {source === target && <p className="text-sm text-destructive">Pick two different environments.</p>}
+            <Button onClick={handleReview} disabled={!canReview}>
+              Review differences
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div>
+                <strong>{source}</strong> → <strong>{target}</strong>: {differing.length} differing key(s),
+                {' '}{selected.size} selected
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" onClick={() => setSelected(new Set(differing.map(candidate => candidate.key)))}>
+                  Select all
+                </Button>
+                <Button variant="outline" size="sm" onClick={() => setSelected(new Set())}>
+                  Select none
+                </Button>
+              </div>
+            </div>
+
+            {differing.length === 0 && (
+              <p className="text-sm text-muted-foreground">{target} already matches {source}.</p>
+            )}
+
+            <div className="space-y-1 max-h-[55vh] overflow-auto">
+              {differing.map(candidate => (
+                <label
+                  key={candidate.key}
+                  className={cn(
+                    'flex items-start gap-3 border-l-4 rounded-sm px-3 py-2 text-xs bg-muted/40 cursor-pointer',
+                    STATUS_STYLES[candidate.status]
+                  )}
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-0.5"
+                    checked={selected.has(candidate.key)}
+                    onChange={(e) => toggleKey(candidate.key, e.target.checked)}
+                  />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-mono font-semibold break-all">{candidate.key}</span>
+                      <Badge variant="outline">{candidate.status === 'removed' ? `remove from ${target}` : candidate.status}</Badge>
+                      {candidate.excluded && <Badge variant="secondary">environment-specific</Badge>}
+                    </div>
+                    <div className="font-mono break-all text-red-700 dark:text-red-400">- {formatValue(candidate.targetValue)}</div>
+                    {candidate.status !== 'removed' && (
+                      <div className="font-mono break-all text-green-700 dark:text-green-400">+ {formatValue(candidate.sourceValue)}</div>
+                    )}
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setStep('select')}>Back</Button>
+              <Button onClick={handleApply} disabled={selected.size === 0}>
+                Create {target} draft
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
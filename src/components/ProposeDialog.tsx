@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Copy, Download, Send } from 'lucide-react';
+import { downloadFile } from '@/lib/utils';
+import { ConfigDiffView } from './ConfigDiffView';
+import { diffConfigs } from '@/lib/configDiff';
+import type { PinningSettings } from '@/services/pinningProviders';
+import type { PublishBase } from '@/services/ipnsUpdater';
+import { createPublishProposal, serializeProposal, type PublishProposal } from '@/services/publishProposal';
+
+interface ProposeDialogProps {
+  open: boolean;
+  environmentName: string;
+  ipnsName: string;
+  config: Record<string, unknown> | null;
+  baseline?: Record<string, unknown>;
+  base?: PublishBase;
+  pinningSettings: PinningSettings;
+  onCreated: (proposal: PublishProposal) => void;
+  onClose: () => void;
+}
+
+export function ProposeDialog({
+  open,
+  environmentName,
+  ipnsName,
+  config,
+  baseline,
+  base,
+  pinningSettings,
+  onCreated,
+  onClose
+}: ProposeDialogProps) {
+  const [author, setAuthor] = useState('');
+  const [note, setNote] = useState('');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [proposal, setProposal] = useState<PublishProposal | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setNote('');
+      setError(null);
+      setProposal(null);
+      setCopied(false);
+    }
+  }, [open]);
+
+  const handleCreate = async () => {
+    if (!config) return;
+    setWorking(true);
+    setError(null);
+    try {
+      const created = await createPublishProposal({
+        environmentName,
+        ipnsName,
+        base: base ?? null,
+        baseline,
+        config,
+        pinningSettings,
+        note: note.trim(),
+        author: author.trim()
+      });
+      setProposal(created);
+      onCreated(created);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!proposal) return;
+    try {
+      await navigator.clipboard.writeText(serializeProposal(proposal));
+      setCopied(true);
+    } catch {
+      setError('Could not copy to the clipboard; select the text above instead');
+    }
+  };
+
+  const handleDownload = () => {
+    if (!proposal) return;
+    downloadFile(`proposal-${environmentName}-${proposal.createdAt.slice(0, 10)}.json`, serializeProposal(proposal));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !working && onClose()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Propose changes to {environmentName}</DialogTitle>
+          <DialogDescription>
+            Creates a proposal a key holder can import, review against the live record and publish. Nothing is uploaded yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!proposal ? (
+          <div className="space-y-3 text-sm">
+            <div className="space-y-2">
+              <div className="font-medium">
+                Changes {baseline ? 'since the last fetched version' : '(no fetched version to compare against - everything is new)'}
+              </div>
+              <ConfigDiffView changes={config ? diffConfigs(baseline ?? {}, config) : []} emptyMessage="No changes compared to the last fetched version." />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="proposal-author">Your name</Label>
+              <Input id="proposal-author" value={author} onChange={(e) => setAuthor(e.target.value)} placeholder="Who is asking" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="proposal-note">Note for the reviewer</Label>
+              <Input id="proposal-note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="What changed and why" />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div className="text-muted-foreground">
+              Send this to a key holder for {environmentName}. Content CID <code className="font-mono break-all">{proposal.contentCid}</code>
+            </div>
+            <Textarea readOnly value={serializeProposal(proposal)} className="font-mono text-xs h-48" onFocus={(e) => e.target.select()} />
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <DialogFooter>
+          {proposal ? (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button variant="outline" onClick={handleCopy}>
+                <Copy className="h-4 w-4 mr-2" />
+                {copied ? 'Copied' : 'Copy'}
+              </Button>
+              <Button onClick={handleDownload}>
+                <Download className="h-4 w-4 mr-2" />
+                Download
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={working}>Cancel</Button>
+              <Button onClick={handleCreate} disabled={working || !config}>
+                <Send className="h-4 w-4 mr-2" />
+                {working ? 'Creating...' : 'Create proposal'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldAlert, Upload } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { ConfigDiffView } from './ConfigDiffView';
+import type { DiffChange } from '@/lib/configDiff';
+
+interface PublishDialogProps {
+  open: boolean;
+  environmentName: string;
+  providerLabel: string;
+  expectedCid?: string;
+  cidError?: string;
+  baseCid?: string;
+  // Live CID this publish replaces without the editor having seen it
+  overwriteCid?: string;
+  changes: DiffChange[];
+  hasBaseline: boolean;
+  isProtected: boolean;
+  publishing: boolean;
+  note: string;
+  onNoteChange: (note: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export function PublishDialog({
+  open,
+  environmentName,
+  providerLabel,
+  expectedCid,
+  cidError,
+  baseCid,
+  overwriteCid,
+  changes,
+  hasBaseline,
+  isProtected,
+  publishing,
+  note,
+  onNoteChange,
+  onConfirm,
+  onCancel
+}: PublishDialogProps) {
+  const [reviewed, setReviewed] = useState(false);
+  const [confirmName, setConfirmName] = useState('');
+
+  // Every publish starts a fresh review
+  useEffect(() => {
+    if (open) {
+      setReviewed(false);
+      setConfirmName('');
+    }
+  }, [open]);
+
+  const confirmed = reviewed && (!isProtected || confirmName === environmentName);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && onCancel()}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{overwriteCid ? 'Overwrite' : 'Publish'} {environmentName}</DialogTitle>
+          <DialogDescription>
+            The configuration will be uploaded via {providerLabel} and the IPNS record re-pointed to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 text-sm">
+          <div className="space-y-2">
+            <div className="font-medium">
+              Changes {hasBaseline ? 'since the last fetched version' : '(no fetched version to compare against - everything is new)'}
+            </div>
+            <ConfigDiffView changes={changes} emptyMessage="No changes compared to the last fetched version." />
+          </div>
+          <div>
+            <div className="text-muted-foreground">Expected CID (computed locally)</div>
+            <code className="text-xs bg-muted px-2 py-1 rounded block font-mono break-all">
+              {expectedCid ?? (cidError ? `Could not compute: ${cidError}` : 'Computing...')}
+            </code>
+          </div>
+          {overwriteCid && (
+            <p className="text-destructive flex items-start gap-1 break-all">
+              <ShieldAlert className="h-4 w-4 shrink-0" />
+              {environmentName} now points to {overwriteCid}, published after this draft was fetched.
+              Those changes are not shown above and will be replaced.
+            </p>
+          )}
+          {baseCid && (
+            <div>
+              <div className="text-muted-foreground">Replaces</div>
+              <code className="text-xs bg-muted px-2 py-1 rounded block font-mono break-all">{baseCid}</code>
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="publish-note" className="text-muted-foreground font-normal">Publisher note (kept in version history)</Label>
+            <Input
+              id="publish-note"
+              value={note}
+              onChange={(e) => onNoteChange(e.target.value)}
+              placeholder="What changed and why"
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            If {providerLabel} reports a different CID for these bytes, the IPNS record will not be updated.
+          </p>
+          <label className="flex items-center gap-2">
+            <input type="checkbox" checked={reviewed} onChange={(e) => setReviewed(e.target.checked)} />
+            I have reviewed these changes
+          </label>
+          {isProtected && (
+            <div className="space-y-1 rounded-md border border-destructive/50 p-3">
+              <Label htmlFor="publish-confirm-name" className="text-destructive flex items-center gap-1">
+                <ShieldAlert className="h-4 w-4" />
+                {environmentName} is protected. Type its name to confirm.
+              </Label>
+              <Input
+                id="publish-confirm-name"
+                value={confirmName}
+                onChange={(e) => setConfirmName(e.target.value)}
+                placeholder={environmentName}
+                autoComplete="off"
+              />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={publishing}>
+            Cancel
+          </Button>
+          <Button onClick={onConfirm} disabled={publishing || !expectedCid || !confirmed}>
+            <Upload className="h-4 w-4 mr-2" />
+            {publishing ? 'Publishing...' : overwriteCid ? 'Confirm & Overwrite' : 'Confirm & Publish'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,267 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { CheckCircle2, FileCheck, ShieldAlert } from 'lucide-react';
+import { ConfigDiffView } from './ConfigDiffView';
+import { diffConfigs } from '@/lib/configDiff';
+import { fetchFromIPFS } from '@/services/ipnsFetcher';
+import { resolveGatewayOptions } from '@/services/gateways';
+import { resolveRouterOptions, resolveVerifiedIPNS } from '@/services/ipnsResolver';
+import { resolvePinningSettings } from '@/services/pinningProviders';
+import type { ConfigStructure, ConfigStructureEnv, EnvironmentConfig, PublishBase } from '@/services/ipnsUpdater';
+import { parseProposal, verifyProposalContent, type PublishProposal } from '@/services/publishProposal';
+
+interface ReviewProposalDialogProps {
+  open: boolean;
+  configEnvs: ConfigStructureEnv["__env"];
+  configStructure: ConfigStructure;
+  keystoreLocked: boolean;
+  onRequestUnlock: () => Promise<boolean>;
+  onReviewed: (environmentName: string, proposal: PublishProposal) => void;
+  onApprove: (environmentName: string, proposal: PublishProposal, liveBase: PublishBase | null) => Promise<{ success: boolean; message: string }>;
+  onClose: () => void;
+}
+
+// Everything the reviewer needs, gathered once when the proposal is loaded
+interface ProposalReview {
+  proposal: PublishProposal;
+  environmentName: string;
+  isProtected: boolean;
+  liveBase: PublishBase | null;
+  liveConfig: Record<string, unknown>;
+  liveError?: string;
+  // The routers confirmed that nothing has been published yet, so an empty live config is real
+  liveMissing: boolean;
+  computedCid: string;
+  contentMatches: boolean;
+}
+
+export function ReviewProposalDialog({
+  open,
+  configEnvs,
+  configStructure,
+  keystoreLocked,
+  onRequestUnlock,
+  onReviewed,
+  onApprove,
+  onClose
+}: ReviewProposalDialogProps) {
+  const [text, setText] = useState('');
+  const [review, setReview] = useState<ProposalReview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [approving, setApproving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [reviewed, setReviewed] = useState(false);
+  const [confirmName, setConfirmName] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setText('');
+      setReview(null);
+      setError(null);
+      setResult(null);
+      setReviewed(false);
+      setConfirmName('');
+    }
+  }, [open]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setText(await file.text());
+  };
+
+  const handleLoad = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const parsed = await parseProposal(text);
+      if (!parsed.proposal) {
+        setError(parsed.error ?? 'Could not read the proposal');
+        return;
+      }
+
+      const proposal = parsed.proposal;
+      const match = Object.entries(configStructure)
+        .find(([, environment]) => (environment as EnvironmentConfig).ipnsPublicKey === proposal.ipnsName);
+      if (!match) {
+        setError(`No environment in this structure publishes to ${proposal.ipnsName}`);
+        return;
+      }
+      const [environmentName, environment] = match as [string, EnvironmentConfig];
+
+      // Review against what consumers get right now, not against what the editor started from
+      const live = await resolveVerifiedIPNS(proposal.ipnsName, resolveRouterOptions(configEnvs));
+      let liveConfig: Record<string, unknown> = {};
+      let liveError = live.success ? undefined : live.error;
+      if (live.record) {
+        const content = await fetchFromIPFS(live.record.cid, resolveGatewayOptions(configEnvs));
+        if (content.success && content.data) liveConfig = content.data;
+        else liveError = `Could not load the live content: ${content.error}`;
+      }
+
+      const verification = await verifyProposalContent(proposal, resolvePinningSettings(configEnvs, environment));
+      setReview({
+        proposal,
+        environmentName,
+        isProtected: !!environment.protected,
+        liveBase: live.record ? { cid: live.record.cid, sequence: live.record.sequence } : null,
+        liveConfig,
+        liveError,
+        liveMissing: !!live.notFound,
+        computedCid: verification.cid,
+        contentMatches: verification.matches
+      });
+      onReviewed(environmentName, proposal);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!review) return;
+    if (keystoreLocked && !(await onRequestUnlock())) return;
+
+    setApproving(true);
+    try {
+      setResult(await onApprove(review.environmentName, review.proposal, review.liveBase));
+    } finally {
+      setApproving(false);
+    }
+  };
+
+  const baseChanged = !!review && (review.proposal.base?.cid ?? null) !== (review.liveBase?.cid ?? null);
+  // Without a verified record or a confirmed "no record", approving would publish without any conflict check
+  const liveUnavailable = !!review && !!review.liveError && !review.liveMissing;
+  const canApprove = !!review && review.contentMatches && !liveUnavailable && reviewed
+    && (!review.isProtected || confirmName === review.environmentName) && !result?.success;
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !loading && !approving && onClose()}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileCheck className="h-5 w-5" />
+            Review publish proposal
+          </DialogTitle>
+          <DialogDescription>
+            Import a proposal from an editor, compare it with the live record and sign it with the environment key.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!review ? (
+          <div className="space-y-3 text-sm">
+            <div className="space-y-1">
+              <Label htmlFor="proposal-file">Proposal file</Label>
+              <Input id="proposal-file" type="file" accept=".json,application/json" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="proposal-text">Or paste it</Label>
+              <Textarea
+                id="proposal-text"
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                className="font-mono text-xs h-40"
+                placeholder='{ "format": "variables-publish-proposal", ... }'
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-3 text-sm">
+            <div className="grid grid-cols-[120px_1fr] gap-x-3 gap-y-1">
+              <span className="text-muted-foreground">Environment</span>
+              <span className="font-medium">{review.environmentName}</span>
+              <span className="text-muted-foreground">Author</span>
+              <span>{review.proposal.author || 'Not given'}</span>
+              <span className="text-muted-foreground">Created</span>
+              <span>{new Date(review.proposal.createdAt).toLocaleString()}</span>
+              <span className="text-muted-foreground">Note</span>
+              <span>{review.proposal.note || '-'}</span>
+              <span className="text-muted-foreground">Content CID</span>
+              <code className="text-xs font-mono break-all">{review.proposal.contentCid}</code>
+              <span className="text-muted-foreground">Live CID</span>
+              <code className="text-xs font-mono break-all">{review.liveBase?.cid ?? 'No record'}</code>
+            </div>
+
+            {!review.contentMatches && (
+              <p className="text-destructive flex items-start gap-1">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                The proposed content hashes to {review.computedCid}, not the CID in the proposal. Do not approve it.
+              </p>
+            )}
+            {review.liveError && (
+              <p className="text-destructive flex items-start gap-1 break-all">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                {liveUnavailable
+                  ? `Could not verify the live record, so the changes below cannot be trusted: ${review.liveError}`
+                  : `No live record found: ${review.liveError}`}
+              </p>
+            )}
+            {baseChanged && !liveUnavailable && (
+              <p className="text-amber-600 flex items-start gap-1 break-all">
+                <ShieldAlert className="h-4 w-4 shrink-0" />
+                The proposal was based on {review.proposal.base?.cid ?? 'no record'}, but {review.environmentName} has been published since.
+                Approving replaces the live version, including anything the editor did not see.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <div className="font-medium">Changes against the live record</div>
+              <ConfigDiffView changes={diffConfigs(review.liveConfig, review.proposal.config)} emptyMessage="Identical to the live version." />
+            </div>
+
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={reviewed} onChange={(e) => setReviewed(e.target.checked)} />
+              I have reviewed these changes
+            </label>
+            {review.isProtected && (
+              <div className="space-y-1 rounded-md border border-destructive/50 p-3">
+                <Label htmlFor="proposal-confirm-name" className="text-destructive flex items-center gap-1">
+                  <ShieldAlert className="h-4 w-4" />
+                  {review.environmentName} is protected. Type its name to confirm.
+                </Label>
+                <Input
+                  id="proposal-confirm-name"
+                  value={confirmName}
+                  onChange={(e) => setConfirmName(e.target.value)}
+                  placeholder={review.environmentName}
+                  autoComplete="off"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+        {result && <div className="p-3 rounded-lg bg-muted text-sm font-mono whitespace-pre-wrap break-all">{result.message}</div>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={loading || approving}>
+            {result?.success ? 'Close' : 'Cancel'}
+          </Button>
+          {!review ? (
+            <Button onClick={handleLoad} disabled={loading || !text.trim()}>
+              {loading ? 'Checking...' : 'Review'}
+            </Button>
+          ) : (
+            <Button onClick={handleApprove} disabled={approving || !canApprove}>
+              <CheckCircle2 className="h-4 w-4 mr-2" />
+              {approving ? 'Publishing...' : 'Approve & Publish'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
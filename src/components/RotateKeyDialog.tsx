@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Download, KeyRound } from 'lucide-react';
+import { MIGRATION_MARKER_KEY, type KeyRotationResult } from '@/services/keyRotation';
+
+interface RotateKeyDialogProps {
+  open: boolean;
+  environmentName: string;
+  hasBaseline: boolean;
+  keystoreLocked: boolean;
+  onRequestUnlock: () => Promise<boolean>;
+  onRotate: (reason: string) => Promise<KeyRotationResult>;
+  onExportStructure: () => void;
+  onClose: () => void;
+}
+
+export function RotateKeyDialog({
+  open,
+  environmentName,
+  hasBaseline,
+  keystoreLocked,
+  onRequestUnlock,
+  onRotate,
+  onExportStructure,
+  onClose
+}: RotateKeyDialogProps) {
+  const [reason, setReason] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [working, setWorking] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [rotated, setRotated] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setConfirmation('');
+      setResult(null);
+      setRotated(false);
+    }
+  }, [open]);
+
+  const handleRotate = async () => {
+    if (confirmation !== environmentName) return;
+    if (keystoreLocked && !(await onRequestUnlock())) return;
+
+    setWorking(true);
+    setResult(null);
+    try {
+      const rotation = await onRotate(reason.trim());
+      if (!rotation.success || !rotation.keypair) {
+        setResult(`❌ ${rotation.error ?? 'Unknown error'}`);
+        return;
+      }
+
+      setRotated(true);
+      setResult([
+        `✅ ${environmentName} now publishes under ${rotation.keypair.ipnsPublicKey}`,
+        rotation.markerBase
+          ? `↪️ ${rotation.rotation?.ipnsPublicKey} points at ${rotation.markerBase.cid} with a "${MIGRATION_MARKER_KEY}" marker`
+          : `⚠️ ${rotation.warning}`
+      ].join('\n'));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !next && !working && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Rotate {environmentName} key
+          </DialogTitle>
+          <DialogDescription>
+            Generates a new IPNS key and publishes the live configuration under it. The old name is re-pointed,
+            with a long-lived record, at the same content plus a "{MIGRATION_MARKER_KEY}" entry naming the new key,
+            so consumers keep working until they switch.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!rotated ? (
+          <div className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Anyone holding the old private key can still publish under the old name. Update consumers to the new
+              name and export the structure file afterwards.
+            </p>
+            {!hasBaseline && (
+              <p className="text-destructive">Fetch {environmentName} first so its live content moves with it.</p>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="rotate-reason">Reason (optional)</Label>
+              <Input
+                id="rotate-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Private key exposed in CI logs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rotate-confirmation">Type {environmentName} to confirm</Label>
+              <Input
+                id="rotate-confirmation"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Export the structure file to keep the new key and the rotation record.
+          </p>
+        )}
+
+        {result && <div className="p-3 rounded-lg bg-muted text-sm font-mono whitespace-pre-wrap break-all">{result}</div>}
+
+        <DialogFooter>
+          {rotated ? (
+            <>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+              <Button onClick={onExportStructure}>
+                <Download className="h-4 w-4 mr-2" />
+                Export structure file
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={onClose} disabled={working}>Cancel</Button>
+              <Button
+                variant="destructive"
+                onClick={handleRotate}
+                disabled={working || !hasBaseline || confirmation !== environmentName}
+              >
+                <KeyRound className="h-4 w-4 mr-2" />
+                {working ? 'Rotating...' : 'Rotate key'}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
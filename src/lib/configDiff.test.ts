@@ -0,0 +1,78 @@
+import { describe, expect, test } from "bun:test"
+import { deepEqual, diffConfigs, formatPath, summarizeDiff } from "./configDiff"
+
+describe("diffConfigs", () => {
+  test("reports nothing for equal configs", () => {
+    expect(diffConfigs({ a: 1, nested: { list: [1, { b: 2 }] } }, { nested: { list: [1, { b: 2 }] }, a: 1 })).toEqual([])
+  })
+
+  test("detects a key renamed with the same value", () => {
+    expect(diffConfigs({ a: 1, apiUrl: "https://api" }, { a: 1, apiEndpoint: "https://api" })).toEqual([
+      { type: "renamed", path: ["apiUrl"], newPath: ["apiEndpoint"], value: "https://api" }
+    ])
+  })
+
+  test("reports a removal and an addition when the value changed with the key", () => {
+    expect(diffConfigs({ apiUrl: "https://old" }, { apiEndpoint: "https://new" })).toEqual([
+      { type: "removed", path: ["apiUrl"], value: "https://old" },
+      { type: "added", path: ["apiEndpoint"], value: "https://new" }
+    ])
+  })
+
+  test("points at the nested value that changed", () => {
+    expect(diffConfigs({ db: { host: "a", port: 1 } }, { db: { host: "b", port: 1 } })).toEqual([
+      { type: "modified", path: ["db", "host"], before: "a", after: "b" }
+    ])
+  })
+
+  test("reports a type change as a modification", () => {
+    expect(diffConfigs({ port: 1 }, { port: "1" })).toEqual([{ type: "modified", path: ["port"], before: 1, after: "1" }])
+  })
+
+  test("aligns arrays so an insert does not shift every later item", () => {
+    expect(diffConfigs({ list: [1, 2, 3] }, { list: [1, 9, 2, 3] })).toEqual([{ type: "added", path: ["list", 1], value: 9 }])
+  })
+
+  test("aligns arrays so a removal does not shift every later item", () => {
+    expect(diffConfigs({ list: ["a", "b", "c"] }, { list: ["a", "c"] })).toEqual([{ type: "removed", path: ["list", 1], value: "b" }])
+  })
+
+  test("recurses into an array item edited in place", () => {
+    const before = { chains: [{ id: 1, rpc: "a" }, { id: 2, rpc: "b" }] }
+    const after = { chains: [{ id: 1, rpc: "a" }, { id: 2, rpc: "c" }] }
+
+    expect(diffConfigs(before, after)).toEqual([{ type: "modified", path: ["chains", 1, "rpc"], before: "b", after: "c" }])
+  })
+
+  test("compares large arrays by index", () => {
+    const before = Array.from({ length: 300 }, (_, i) => i)
+    const after = [...before.slice(0, 299), -1, 300]
+
+    expect(diffConfigs({ list: before }, { list: after })).toEqual([
+      { type: "modified", path: ["list", 299], before: 299, after: -1 },
+      { type: "added", path: ["list", 300], value: 300 }
+    ])
+  })
+})
+
+describe("summarizeDiff", () => {
+  test("counts changes by type", () => {
+    const changes = diffConfigs({ a: 1, b: 2, c: 3 }, { a: 2, renamed: 2, d: 4 })
+
+    expect(summarizeDiff(changes)).toEqual({ added: 1, removed: 1, renamed: 1, modified: 1, total: 4 })
+  })
+})
+
+describe("formatPath", () => {
+  test("uses dots for identifiers and brackets for indexes and other keys", () => {
+    expect(formatPath(["db", "hosts", 0, "my-key"])).toBe("db.hosts[0][\"my-key\"]")
+  })
+})
+
+describe("deepEqual", () => {
+  test("ignores key order but not array order", () => {
+    expect(deepEqual({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true)
+    expect(deepEqual([1, 2], [2, 1])).toBe(false)
+    expect(deepEqual({ a: undefined }, { b: undefined })).toBe(false)
+  })
+})
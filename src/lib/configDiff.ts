@@ -0,0 +1,134 @@
+export type DiffPath = (string | number)[]
+
+export type DiffChange =
+  | { type: "added"; path: DiffPath; value: unknown }
+  | { type: "removed"; path: DiffPath; value: unknown }
+  | { type: "renamed"; path: DiffPath; newPath: DiffPath; value: unknown }
+  | { type: "modified"; path: DiffPath; before: unknown; after: unknown }
+
+export interface DiffSummary {
+  added: number
+  removed: number
+  renamed: number
+  modified: number
+  total: number
+}
+
+// Above this many cells the array diff falls back to comparing by index
+const MAX_LCS_CELLS = 40_000
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]))
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const aKeys = Object.keys(a)
+    const bKeys = Object.keys(b)
+    return aKeys.length === bKeys.length && aKeys.every(key => key in b && deepEqual(a[key], b[key]))
+  }
+  return false
+}
+
+export function valueType(value: unknown): string {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  return typeof value
+}
+
+export function formatPath(path: DiffPath): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === "number") return `${acc}[${segment}]`
+    return /^[A-Za-z_$][\w$]*$/.test(segment) ? (acc ? `${acc}.${segment}` : segment) : `${acc}[${JSON.stringify(segment)}]`
+  }, "")
+}
+
+function diffObjects(before: Record<string, unknown>, after: Record<string, unknown>, path: DiffPath, changes: DiffChange[]) {
+  const removed = Object.keys(before).filter(key => !(key in after))
+  const added = Object.keys(after).filter(key => !(key in before))
+
+  // A removed key whose exact value reappears under a new key is a rename
+  for (const oldKey of [...removed]) {
+    const newKey = added.find(key => deepEqual(before[oldKey], after[key]))
+    if (newKey === undefined) continue
+
+    changes.push({ type: "renamed", path: [...path, oldKey], newPath: [...path, newKey], value: after[newKey] })
+    removed.splice(removed.indexOf(oldKey), 1)
+    added.splice(added.indexOf(newKey), 1)
+  }
+
+  for (const key of removed) changes.push({ type: "removed", path: [...path, key], value: before[key] })
+  for (const key of added) changes.push({ type: "added", path: [...path, key], value: after[key] })
+
+  for (const key of Object.keys(after)) {
+    if (key in before) diffValues(before[key], after[key], [...path, key], changes)
+  }
+}
+
+function diffArrays(before: unknown[], after: unknown[], path: DiffPath, changes: DiffChange[]) {
+  if (before.length * after.length > MAX_LCS_CELLS) {
+    const length = Math.max(before.length, after.length)
+    for (let i = 0; i < length; i++) {
+      if (i >= before.length) changes.push({ type: "added", path: [...path, i], value: after[i] })
+      else if (i >= after.length) changes.push({ type: "removed", path: [...path, i], value: before[i] })
+      else diffValues(before[i], after[i], [...path, i], changes)
+    }
+    return
+  }
+
+  // Longest common subsequence of equal items, so inserts don't show up as every later item changing
+  const lcs = Array.from({ length: before.length + 1 }, () => new Array<number>(after.length + 1).fill(0))
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = deepEqual(before[i], after[j]) ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && deepEqual(before[i], after[j])) {
+      i++
+      j++
+    } else if (i < before.length && j < after.length && lcs[i + 1][j] === lcs[i][j + 1] && valueType(before[i]) === valueType(after[j])) {
+      // Same slot edited in place: recurse to show what changed inside it
+      diffValues(before[i], after[j], [...path, j], changes)
+      i++
+      j++
+    } else if (j < after.length && (i >= before.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      changes.push({ type: "added", path: [...path, j], value: after[j] })
+      j++
+    } else {
+      changes.push({ type: "removed", path: [...path, i], value: before[i] })
+      i++
+    }
+  }
+}
+
+function diffValues(before: unknown, after: unknown, path: DiffPath, changes: DiffChange[]) {
+  if (deepEqual(before, after)) return
+
+  if (isPlainObject(before) && isPlainObject(after)) {
+    diffObjects(before, after, path, changes)
+  } else if (Array.isArray(before) && Array.isArray(after)) {
+    diffArrays(before, after, path, changes)
+  } else {
+    changes.push({ type: "modified", path, before, after })
+  }
+}
+
+export function diffConfigs(before: Record<string, unknown>, after: Record<string, unknown>): DiffChange[] {
+  const changes: DiffChange[] = []
+  diffObjects(before, after, [], changes)
+  return changes
+}
+
+export function summarizeDiff(changes: DiffChange[]): DiffSummary {
+  const summary: DiffSummary = { added: 0, removed: 0, renamed: 0, modified: 0, total: changes.length }
+  for (const change of changes) summary[change.type]++
+  return summary
+}
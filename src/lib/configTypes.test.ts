@@ -0,0 +1,18 @@
+import { describe, expect, test } from "bun:test"
+import { generateConfigTypes } from "./configTypes"
+
+describe("generateConfigTypes", () => {
+  test("declares a type alias for a config with no keys", () => {
+    const output = generateConfigTypes({ dev: {} })
+
+    expect(output).toContain("export type Config = Record<string, never>\n")
+    expect(output).toContain("export const ConfigSchema = z.object({})\n")
+  })
+
+  test("marks keys missing from some environments as optional", () => {
+    const output = generateConfigTypes({ dev: { apiUrl: "http://localhost", debug: true }, prod: { apiUrl: "https://example.com" } })
+
+    expect(output).toContain("export interface Config {\n  apiUrl: string\n  debug?: boolean\n}")
+    expect(output).toContain("debug: z.boolean().optional(),")
+  })
+})
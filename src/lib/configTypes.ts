@@ -0,0 +1,131 @@
+import { valueType } from "./configDiff"
+import type { ConfigValue } from "./configValue"
+
+type PrimitiveType = "string" | "number" | "boolean" | "null"
+
+// Everything seen at one position across all sample values
+interface TypeShape {
+  primitives: Set<PrimitiveType>
+  // Element shape; has nothing in it when only empty arrays were seen
+  array?: TypeShape
+  object?: { fields: Map<string, { shape: TypeShape; seen: number }>; seen: number }
+}
+
+const PRIMITIVE_ORDER: PrimitiveType[] = ["string", "number", "boolean", "null"]
+
+const ZOD_PRIMITIVES: Record<PrimitiveType, string> = {
+  string: "z.string()",
+  number: "z.number()",
+  boolean: "z.boolean()",
+  null: "z.null()"
+}
+
+function emptyShape(): TypeShape {
+  return { primitives: new Set() }
+}
+
+function isEmptyShape(shape: TypeShape): boolean {
+  return shape.primitives.size === 0 && !shape.array && !shape.object
+}
+
+function addValue(shape: TypeShape, value: ConfigValue) {
+  if (Array.isArray(value)) {
+    shape.array ??= emptyShape()
+    for (const item of value) addValue(shape.array, item)
+    return
+  }
+
+  if (value !== null && typeof value === "object") {
+    shape.object ??= { fields: new Map(), seen: 0 }
+    shape.object.seen += 1
+    for (const [key, item] of Object.entries(value)) {
+      let field = shape.object.fields.get(key)
+      if (!field) {
+        field = { shape: emptyShape(), seen: 0 }
+        shape.object.fields.set(key, field)
+      }
+      field.seen += 1
+      addValue(field.shape, item)
+    }
+    return
+  }
+
+  shape.primitives.add(valueType(value) as PrimitiveType)
+}
+
+function propertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)
+}
+
+function tsParts(shape: TypeShape, indent: string): string[] {
+  const parts: string[] = PRIMITIVE_ORDER.filter(type => shape.primitives.has(type) && type !== "null")
+
+  if (shape.object) parts.push(tsObject(shape.object, indent))
+  if (shape.array) {
+    const element = tsParts(shape.array, indent)
+    parts.push(element.length === 0 ? "unknown[]" : element.length === 1 ? `${element[0]}[]` : `(${element.join(" | ")})[]`)
+  }
+  if (shape.primitives.has("null")) parts.push("null")
+  return parts
+}
+
+function tsObject(object: NonNullable<TypeShape["object"]>, indent: string): string {
+  if (object.fields.size === 0) return "Record<string, never>"
+
+  const inner = `${indent}  `
+  const lines = [...object.fields].map(([key, field]) => {
+    const type = isEmptyShape(field.shape) ? "unknown" : tsParts(field.shape, inner).join(" | ")
+    return `${inner}${propertyName(key)}${field.seen < object.seen ? "?" : ""}: ${type}`
+  })
+  return `{\n${lines.join("\n")}\n${indent}}`
+}
+
+function zodSchema(shape: TypeShape, indent: string): string {
+  const parts: string[] = PRIMITIVE_ORDER.filter(type => shape.primitives.has(type) && type !== "null").map(type => ZOD_PRIMITIVES[type])
+
+  if (shape.object) parts.push(zodObject(shape.object, indent))
+  if (shape.array) parts.push(`z.array(${zodSchema(shape.array, indent)})`)
+
+  const nullable = shape.primitives.has("null")
+  if (parts.length === 0) return nullable ? "z.null()" : "z.unknown()"
+
+  const schema = parts.length === 1 ? parts[0] : `z.union([${parts.join(", ")}])`
+  return nullable ? `${schema}.nullable()` : schema
+}
+
+function zodObject(object: NonNullable<TypeShape["object"]>, indent: string): string {
+  if (object.fields.size === 0) return "z.object({})"
+
+  const inner = `${indent}  `
+  const lines = [...object.fields].map(([key, field]) => {
+    const schema = zodSchema(field.shape, inner)
+    return `${inner}${propertyName(key)}: ${field.seen < object.seen ? `${schema}.optional()` : schema},`
+  })
+  return `z.object({\n${lines.join("\n")}\n${indent}})`
+}
+
+/**
+ * Generate a TypeScript interface and a matching Zod schema from one or more environments' configs.
+ * A key missing from some environments (or some array elements) is optional.
+ */
+export function generateConfigTypes(configs: Record<string, Record<string, ConfigValue>>, typeName = "Config"): string {
+  const root = emptyShape()
+  for (const config of Object.values(configs)) addValue(root, config)
+  const object = root.object ?? { fields: new Map(), seen: 0 }
+  // An interface needs a body, so a config with no keys becomes a type alias
+  const declaration = object.fields.size === 0
+    ? `export type ${typeName} = ${tsObject(object, "")}`
+    : `export interface ${typeName} ${tsObject(object, "")}`
+
+  return [
+    `// Generated from the ${Object.keys(configs).join(", ") || "(none)"} config${Object.keys(configs).length === 1 ? "" : "s"}.`,
+    "// Keys that are missing from some environments are optional.",
+    "",
+    "import { z } from \"zod\"",
+    "",
+    declaration,
+    "",
+    `export const ${typeName}Schema = ${zodObject(object, "")}`,
+    ""
+  ].join("\n")
+}
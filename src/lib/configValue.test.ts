@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test"
+import { convertValue, describeTypeChanges, findKeyProblems, parseValueInput, toConfigObject, toConfigRows, type ConfigValue, type ConfigValueType } from "./configValue"
+
+describe("parseValueInput", () => {
+  test.each<[string, ConfigValueType, { value?: ConfigValue; error?: string }]>([
+    ["hello", "string", { value: "hello" }],
+    ["", "string", { value: "" }],
+    ["42", "number", { value: 42 }],
+    ["-1.5e3", "number", { value: -1500 }],
+    ["", "number", { error: "Not a number" }],
+    ["  ", "number", { error: "Not a number" }],
+    ["12abc", "number", { error: "Not a number" }],
+    ["Infinity", "number", { error: "Not a number" }],
+    ["true", "boolean", { value: true }],
+    ["false", "boolean", { value: false }],
+    ["yes", "boolean", { error: "Must be true or false" }],
+    ["anything", "null", { value: null }],
+    ["[1, \"a\"]", "array", { value: [1, "a"] }],
+    ["{\"a\": 1}", "array", { error: "Not a JSON array" }],
+    ["{\"a\": [1]}", "object", { value: { a: [1] } }],
+    ["null", "object", { error: "Not a JSON object" }]
+  ])("%j as %s", (text, type, expected) => {
+    expect(parseValueInput(text, type)).toEqual(expected)
+  })
+
+  test("reports invalid JSON", () => {
+    expect(parseValueInput("{", "object").error).toBeString()
+  })
+})
+
+describe("convertValue", () => {
+  test.each<[ConfigValue, ConfigValueType, ConfigValue, boolean]>([
+    // [value, to, result, lossy]
+    ["same", "string", "same", false],
+    [42, "string", "42", false],
+    [true, "string", "true", false],
+    [[1, 2], "string", "[1,2]", false],
+    [null, "string", "", true],
+    ["3.5", "number", 3.5, false],
+    [true, "number", 1, false],
+    ["", "number", 0, true],
+    ["abc", "number", 0, true],
+    [[1], "number", 0, true],
+    ["true", "boolean", true, false],
+    [0, "boolean", false, false],
+    [1, "boolean", true, false],
+    [2, "boolean", false, true],
+    ["yes", "boolean", false, true],
+    ["x", "null", null, true],
+    ["[1,2]", "array", [1, 2], false],
+    [null, "array", [], false],
+    ["a", "array", ["a"], true],
+    [{ a: 1 }, "array", [{ a: 1 }], true],
+    ["{\"a\":1}", "object", { a: 1 }, false],
+    [null, "object", {}, false],
+    [[1], "object", {}, true],
+    ["[1]", "object", {}, true]
+  ])("%j to %s", (value, to, result, lossy) => {
+    const conversion = convertValue(value, to)
+
+    expect(conversion.value).toEqual(result)
+    expect(!!conversion.lossy).toBe(lossy)
+  })
+})
+
+describe("findKeyProblems", () => {
+  const row = (id: string, key: string) => ({ id, key, value: "" })
+
+  test.each<[string, ReturnType<typeof row>[], Record<string, string>]>([
+    ["unique keys", [row("1", "a"), row("2", "b")], {}],
+    ["an empty key", [row("1", "")], { 1: "Key cannot be empty" }],
+    ["a blank key", [row("1", "   ")], { 1: "Key cannot be empty" }],
+    ["surrounding spaces", [row("1", " a ")], { 1: "Key has leading or trailing spaces" }],
+    ["duplicate keys", [row("1", "a"), row("2", "a"), row("3", "b")], { 1: "Duplicate key \"a\"", 2: "Duplicate key \"a\"" }],
+    ["a duplicate that differs only in spaces", [row("1", "a"), row("2", "a ")], { 1: "Duplicate key \"a\"", 2: "Key has leading or trailing spaces" }],
+    ["keys that differ only in case", [row("1", "a"), row("2", "A")], {}]
+  ])("%s", (_, rows, expected) => {
+    expect(findKeyProblems(rows)).toEqual(expected)
+  })
+})
+
+describe("config rows", () => {
+  test("keep the ids of keys that already had a row", () => {
+    const previous = toConfigRows({ a: 1, b: 2 })
+    const next = toConfigRows({ b: 3, c: 4 }, previous)
+
+    expect(next[0]).toEqual({ id: previous[1].id, key: "b", value: 3 })
+    expect(previous.map(row => row.id)).not.toContain(next[1].id)
+    expect(toConfigObject(next)).toEqual({ b: 3, c: 4 })
+  })
+})
+
+describe("describeTypeChanges", () => {
+  test("lists keys whose value type changed", () => {
+    expect(describeTypeChanges({ a: 1, b: "x", c: [] }, { a: "1", b: "y", d: null })).toEqual(["a: type changed from number to string"])
+  })
+})
@@ -0,0 +1,128 @@
+import { valueType } from "./configDiff"
+import type { FetchedConfig } from "../services/ipnsFetcher"
+
+export type ConfigValue = string | number | boolean | null | ConfigValue[] | { [key: string]: ConfigValue }
+
+export type ConfigValueType = "string" | "number" | "boolean" | "null" | "array" | "object"
+
+export const CONFIG_VALUE_TYPES: ConfigValueType[] = ["string", "number", "boolean", "null", "array", "object"]
+
+export interface ValueConversion {
+  value: ConfigValue
+  // Set when the conversion could not carry the old value over intact
+  lossy?: string
+}
+
+export function getValueType(value: ConfigValue): ConfigValueType {
+  return valueType(value) as ConfigValueType
+}
+
+// Text shown in a single-line input; strings are shown as-is, everything else as compact JSON
+export function formatValueInput(value: ConfigValue): string {
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+export function parseValueInput(text: string, type: ConfigValueType): { value?: ConfigValue; error?: string } {
+  switch (type) {
+    case "string":
+      return { value: text }
+    case "number": {
+      const number = Number(text)
+      return text.trim() && Number.isFinite(number) ? { value: number } : { error: "Not a number" }
+    }
+    case "boolean":
+      return text === "true" || text === "false" ? { value: text === "true" } : { error: "Must be true or false" }
+    case "null":
+      return { value: null }
+    default:
+      try {
+        const parsed = JSON.parse(text)
+        return valueType(parsed) === type ? { value: parsed } : { error: `Not a JSON ${type}` }
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : "Invalid JSON" }
+      }
+  }
+}
+
+function parseJsonOfType(text: string, type: ConfigValueType): ConfigValue | undefined {
+  try {
+    const parsed = JSON.parse(text)
+    return valueType(parsed) === type ? parsed : undefined
+  } catch {
+    return undefined
+  }
+}
+
+export function convertValue(value: ConfigValue, to: ConfigValueType): ValueConversion {
+  const from = getValueType(value)
+  if (from === to) return { value }
+
+  const text = formatValueInput(value)
+
+  switch (to) {
+    case "string":
+      return from === "null" ? { value: "", lossy: "null became an empty string" } : { value: text }
+    case "number": {
+      if (typeof value === "boolean") return { value: value ? 1 : 0 }
+      const number = Number(text)
+      if (from === "string" && text.trim() && Number.isFinite(number)) return { value: number }
+      return { value: 0, lossy: `${JSON.stringify(value)} is not a number, replaced with 0` }
+    }
+    case "boolean":
+      if (value === "true" || value === "false") return { value: value === "true" }
+      if (value === 0 || value === 1) return { value: value === 1 }
+      return { value: false, lossy: `${JSON.stringify(value)} is not a boolean, replaced with false` }
+    case "null":
+      return { value: null, lossy: `${JSON.stringify(value)} was discarded` }
+    case "array": {
+      const parsed = from === "string" ? parseJsonOfType(text, "array") : undefined
+      if (parsed !== undefined) return { value: parsed }
+      if (from === "null") return { value: [] }
+      return { value: [value], lossy: `Wrapped ${JSON.stringify(value)} in an array` }
+    }
+    case "object": {
+      const parsed = from === "string" ? parseJsonOfType(text, "object") : undefined
+      if (parsed !== undefined) return { value: parsed }
+      if (from === "null") return { value: {} }
+      return { value: {}, lossy: `${JSON.stringify(value)} was discarded` }
+    }
+  }
+}
+
+// One line per top-level key whose value type differs between two versions of a config
+export function describeTypeChanges(before: Record<string, ConfigValue>, after: Record<string, ConfigValue>): string[] {
+  return Object.keys(after)
+    .filter(key => key in before && getValueType(before[key]) !== getValueType(after[key]))
+    .map(key => `${key}: type changed from ${getValueType(before[key])} to ${getValueType(after[key])}`)
+}
+
+export function createRowId(): string {
+  return crypto.randomUUID()
+}
+
+// Editor rows for a config object; rows whose key already exists in `previous` keep their id
+export function toConfigRows(config: Record<string, ConfigValue>, previous: FetchedConfig[] = []): FetchedConfig[] {
+  return Object.entries(config).map(([key, value]) => ({
+    id: previous.find(row => row.key === key)?.id ?? createRowId(),
+    key,
+    value,
+  }))
+}
+
+export function toConfigObject(rows: FetchedConfig[]): Record<string, ConfigValue> {
+  return Object.fromEntries(rows.map(row => [row.key, row.value]))
+}
+
+// Problems keyed by row id; any entry means the rows cannot be turned into a config object safely
+export function findKeyProblems(rows: FetchedConfig[]): Record<string, string> {
+  const problems: Record<string, string> = {}
+  const counts = new Map<string, number>()
+  for (const row of rows) counts.set(row.key.trim(), (counts.get(row.key.trim()) ?? 0) + 1)
+
+  for (const row of rows) {
+    if (!row.key.trim()) problems[row.id] = "Key cannot be empty"
+    else if (row.key !== row.key.trim()) problems[row.id] = "Key has leading or trailing spaces"
+    else if (counts.get(row.key)! > 1) problems[row.id] = `Duplicate key "${row.key}"`
+  }
+  return problems
+}
@@ -0,0 +1,87 @@
+import { describe, expect, test } from "bun:test"
+import { EDIT_COALESCE_MS, EDIT_HISTORY_LIMIT, recordEdit, redoEdit, undoEdit, type EditHistory } from "./editHistory"
+
+type History = EditHistory<string>
+
+function typeInto(history: History | undefined, before: string, after: string, timestamp: number, coalesceKey = "row-1:value"): History {
+  return recordEdit(history, { label: "Edit value", before, after, timestamp, coalesceKey })
+}
+
+describe("recordEdit", () => {
+  test("collapses a burst of typing into one entry", () => {
+    let history = typeInto(undefined, "", "a", 0)
+    history = typeInto(history, "a", "ab", 600)
+    history = typeInto(history, "ab", "abc", 1200)
+
+    expect(history.past).toHaveLength(1)
+    expect(history.past[0]).toMatchObject({ before: "", after: "abc", timestamp: 1200 })
+  })
+
+  test("keeps extending the entry while the gaps stay inside the window", () => {
+    let history: History | undefined
+    let text = ""
+    for (let i = 0; i < 10; i++) {
+      history = typeInto(history, text, text + "x", i * EDIT_COALESCE_MS)
+      text += "x"
+    }
+
+    expect(history!.past).toHaveLength(1)
+    expect(history!.past[0]).toMatchObject({ before: "", after: "xxxxxxxxxx" })
+  })
+
+  test("starts a new entry after a pause longer than the window", () => {
+    let history = typeInto(undefined, "", "a", 0)
+    history = typeInto(history, "a", "ab", EDIT_COALESCE_MS + 1)
+
+    expect(history.past.map(entry => [entry.before, entry.after])).toEqual([["", "a"], ["a", "ab"]])
+  })
+
+  test("does not merge edits to different fields or edits without a key", () => {
+    let history = typeInto(undefined, "", "a", 0, "row-1:value")
+    history = typeInto(history, "a", "ab", 100, "row-2:value")
+    history = recordEdit(history, { label: "Add key", before: "ab", after: "abc", timestamp: 200 })
+    history = recordEdit(history, { label: "Add key", before: "abc", after: "abcd", timestamp: 300 })
+
+    expect(history.past).toHaveLength(4)
+  })
+
+  test("clears the redo stack", () => {
+    let history = typeInto(undefined, "", "a", 0)
+    history = undoEdit(history)!.history
+    history = typeInto(history, "", "b", 5000)
+
+    expect(history.future).toEqual([])
+  })
+
+  test("keeps at most the history limit", () => {
+    let history: History | undefined
+    for (let i = 0; i < EDIT_HISTORY_LIMIT + 5; i++) {
+      history = recordEdit(history, { label: "Edit", before: String(i), after: String(i + 1), timestamp: i })
+    }
+
+    expect(history!.past).toHaveLength(EDIT_HISTORY_LIMIT)
+    expect(history!.past[0].before).toBe("5")
+  })
+})
+
+describe("undoEdit / redoEdit", () => {
+  test("walk back and forth between snapshots", () => {
+    let history = typeInto(undefined, "", "a", 0)
+    history = typeInto(history, "a", "ab", 5000)
+
+    const undone = undoEdit(history)!
+    expect(undone.state).toBe("a")
+    const undoneTwice = undoEdit(undone.history)!
+    expect(undoneTwice.state).toBe("")
+    expect(undoEdit(undoneTwice.history)).toBeNull()
+
+    const redone = redoEdit(undoneTwice.history)!
+    expect(redone.state).toBe("a")
+    expect(redoEdit(redone.history)!.state).toBe("ab")
+  })
+
+  test("return null without a history", () => {
+    expect(undoEdit(undefined)).toBeNull()
+    expect(redoEdit(undefined)).toBeNull()
+  })
+})
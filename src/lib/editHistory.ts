@@ -0,0 +1,49 @@
+// Undo/redo stacks of state snapshots; entries are never mutated, so snapshots can share structure
+
+export interface EditEntry<T> {
+  label: string
+  before: T
+  after: T
+  timestamp: number
+  // Consecutive edits with the same key inside the coalesce window collapse into one entry
+  coalesceKey?: string
+}
+
+export interface EditHistory<T> {
+  past: EditEntry<T>[]
+  future: EditEntry<T>[]
+}
+
+// Measured from the previous edit, not the first: an unbroken burst of typing is one undo step, a pause starts the next
+export const EDIT_COALESCE_MS = 1000
+export const EDIT_HISTORY_LIMIT = 100
+
+export function recordEdit<T>(history: EditHistory<T> | undefined, entry: EditEntry<T>): EditHistory<T> {
+  const past = history?.past ?? []
+  const last = past[past.length - 1]
+
+  if (last && entry.coalesceKey && last.coalesceKey === entry.coalesceKey && entry.timestamp - last.timestamp <= EDIT_COALESCE_MS) {
+    return { past: [...past.slice(0, -1), { ...entry, before: last.before }], future: [] }
+  }
+
+  return { past: [...past, entry].slice(-EDIT_HISTORY_LIMIT), future: [] }
+}
+
+// Returns the state to restore, or null when there is nothing to undo
+export function undoEdit<T>(history: EditHistory<T> | undefined): { history: EditHistory<T>; state: T } | null {
+  const entry = history?.past[history.past.length - 1]
+  if (!history || !entry) return null
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    state: entry.before
+  }
+}
+
+export function redoEdit<T>(history: EditHistory<T> | undefined): { history: EditHistory<T>; state: T } | null {
+  const entry = history?.future[0]
+  if (!history || !entry) return null
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    state: entry.after
+  }
+}
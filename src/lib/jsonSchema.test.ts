@@ -0,0 +1,126 @@
+import { describe, expect, test } from "bun:test"
+import { checkSchema, groupErrorsByKey, validateSchema, type JsonSchema } from "./jsonSchema"
+
+const CONFIG_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["apiUrl", "chains"],
+  additionalProperties: false,
+  properties: {
+    apiUrl: { type: "string", pattern: "^https://" },
+    retries: { type: "integer", minimum: 0, maximum: 5 },
+    chains: { type: "array", minItems: 1, items: { $ref: "#/$defs/chain" } }
+  },
+  $defs: {
+    chain: {
+      type: "object",
+      required: ["id"],
+      properties: { id: { type: "integer" }, rpc: { anyOf: [{ type: "string" }, { type: "null" }] } }
+    }
+  }
+}
+
+describe("checkSchema", () => {
+  test("accepts the supported keywords", () => {
+    expect(checkSchema(CONFIG_SCHEMA)).toEqual([])
+  })
+
+  test("reports every unsupported keyword with where it is", () => {
+    const schema: JsonSchema = {
+      type: "object",
+      propertyNames: { pattern: "^[a-z]+$" },
+      properties: {
+        email: { type: "string", format: "email" },
+        tags: { type: "array", uniqueItems: true },
+        port: { not: { const: 0 }, multipleOf: 1 }
+      }
+    }
+
+    expect(checkSchema(schema)).toEqual([
+      "Unsupported keyword \"propertyNames\" at #",
+      "Unsupported keyword \"format\" at /properties/email",
+      "Unsupported keyword \"uniqueItems\" at /properties/tags",
+      "Unsupported keyword \"multipleOf\" at /properties/port",
+      "Unsupported keyword \"not\" at /properties/port"
+    ])
+  })
+
+  test("accepts a recursive $ref to the root", () => {
+    expect(checkSchema({ type: "object", properties: { child: { $ref: "#" } } })).toEqual([])
+  })
+
+  test("reports remote, unresolvable and looping $refs", () => {
+    const schema: JsonSchema = {
+      properties: {
+        remote: { $ref: "https://example.com/schema.json" },
+        missing: { $ref: "#/$defs/missing" },
+        loop: { $ref: "#/$defs/a" }
+      },
+      $defs: { a: { $ref: "#/$defs/b" }, b: { $ref: "#/$defs/a" } }
+    }
+
+    expect(checkSchema(schema)).toEqual([
+      "Only local $ref values are supported, got https://example.com/schema.json at /properties/remote",
+      "Unresolvable $ref #/$defs/missing at /properties/missing",
+      "$ref cycle through #/$defs/a at /properties/loop",
+      "$ref cycle through #/$defs/b at /$defs/a",
+      "$ref cycle through #/$defs/a at /$defs/b"
+    ])
+  })
+
+  test("reports an invalid pattern", () => {
+    expect(checkSchema({ properties: { name: { pattern: "(" } } })).toEqual([
+      expect.stringMatching(/^Invalid pattern \(: .* at \/properties\/name$/)
+    ])
+  })
+})
+
+describe("validateSchema", () => {
+  test("accepts a valid config", () => {
+    expect(validateSchema({ apiUrl: "https://api", retries: 2, chains: [{ id: 1, rpc: null }] }, CONFIG_SCHEMA)).toEqual([])
+  })
+
+  test("reports each problem at its path", () => {
+    const errors = validateSchema({ apiUrl: "http://api", retries: 1.5, chains: [{ rpc: 1 }], extra: true }, CONFIG_SCHEMA)
+
+    expect(errors).toEqual([
+      { path: ["apiUrl"], message: "Must match ^https://" },
+      { path: ["retries"], message: "Expected integer, got number" },
+      { path: ["chains", 0, "id"], message: "Required key is missing" },
+      { path: ["chains", 0, "rpc"], message: "Does not match any of the allowed shapes" },
+      { path: ["extra"], message: "Key is not allowed by the schema" }
+    ])
+  })
+
+  test("follows a recursive $ref to the root", () => {
+    const schema: JsonSchema = { type: "object", properties: { name: { type: "string" }, child: { $ref: "#" } } }
+
+    expect(validateSchema({ name: "a", child: { name: "b", child: { name: 3 } } }, schema)).toEqual([
+      { path: ["child", "child", "name"], message: "Expected string, got number" }
+    ])
+  })
+
+  test("stops at a $ref cycle instead of recursing forever", () => {
+    const schema: JsonSchema = { $ref: "#/$defs/a", $defs: { a: { allOf: [{ $ref: "#/$defs/b" }] }, b: { $ref: "#/$defs/a" } } }
+
+    expect(validateSchema({}, schema)).toEqual([{ path: [], message: "Schema error: $ref cycle through #/$defs/a" }])
+  })
+
+  test("reports schema problems as errors instead of throwing", () => {
+    expect(validateSchema("x", { $ref: "#/nowhere" })).toEqual([{ path: [], message: "Schema error: Unresolvable $ref #/nowhere" }])
+    expect(validateSchema("x", { pattern: "(" })).toEqual([{ path: [], message: expect.stringMatching(/^Schema error: Invalid pattern/) }])
+  })
+})
+
+describe("groupErrorsByKey", () => {
+  test("groups errors under their top-level key", () => {
+    expect(groupErrorsByKey([
+      { path: ["chains", 0, "id"], message: "Required key is missing" },
+      { path: ["apiUrl"], message: "Must match ^https://" },
+      { path: [], message: "Expected object, got string" }
+    ])).toEqual({
+      chains: ["[0].id: Required key is missing"],
+      apiUrl: ["Must match ^https://"],
+      "": ["Expected object, got string"]
+    })
+  })
+})
@@ -0,0 +1,254 @@
+import { deepEqual, formatPath, valueType, type DiffPath } from "./configDiff"
+
+// The subset of JSON Schema (draft 7 / 2020-12) keywords config files need
+export interface JsonSchema {
+  $ref?: string
+  $defs?: Record<string, JsonSchema>
+  definitions?: Record<string, JsonSchema>
+  type?: string | string[]
+  enum?: unknown[]
+  const?: unknown
+  required?: string[]
+  properties?: Record<string, JsonSchema>
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  minimum?: number
+  maximum?: number
+  exclusiveMinimum?: number
+  exclusiveMaximum?: number
+  minLength?: number
+  maxLength?: number
+  pattern?: string
+  anyOf?: JsonSchema[]
+  oneOf?: JsonSchema[]
+  allOf?: JsonSchema[]
+  description?: string
+  [keyword: string]: unknown
+}
+
+export interface SchemaError {
+  path: DiffPath
+  message: string
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  if (type === "integer") return Number.isInteger(value)
+  return valueType(value) === type
+}
+
+// Keywords with a meaning the validator does not enforce; a schema using them is refused rather than partly applied
+const UNSUPPORTED_KEYWORDS = [
+  "patternProperties",
+  "propertyNames",
+  "minProperties",
+  "maxProperties",
+  "dependentRequired",
+  "dependentSchemas",
+  "dependencies",
+  "unevaluatedProperties",
+  "prefixItems",
+  "additionalItems",
+  "contains",
+  "minContains",
+  "maxContains",
+  "uniqueItems",
+  "unevaluatedItems",
+  "multipleOf",
+  "format",
+  "not",
+  "if",
+  "then",
+  "else",
+  "$dynamicRef",
+  "$recursiveRef"
+]
+
+function resolveRef(root: JsonSchema, ref: string): { schema?: JsonSchema; error?: string } {
+  if (ref === "#") return { schema: root }
+  if (!ref.startsWith("#/")) return { error: `Only local $ref values are supported, got ${ref}` }
+
+  let target: unknown = root
+  for (const segment of ref.slice(2).split("/")) {
+    target = (target as Record<string, unknown> | undefined)?.[segment.replace(/~1/g, "/").replace(/~0/g, "~")]
+  }
+  if (!target || typeof target !== "object") return { error: `Unresolvable $ref ${ref}` }
+  return { schema: target as JsonSchema }
+}
+
+function compilePattern(pattern: string): { regex?: RegExp; error?: string } {
+  try {
+    return { regex: new RegExp(pattern, "u") }
+  } catch (error) {
+    return { error: `Invalid pattern ${pattern}: ${error instanceof Error ? error.message : String(error)}` }
+  }
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, "~0").replace(/\//g, "~1")
+}
+
+// Each subschema with its JSON pointer below the parent
+function subschemas(schema: JsonSchema, pointer: string): [string, JsonSchema][] {
+  const named = (keyword: string, schemas?: Record<string, JsonSchema>) =>
+    Object.entries(schemas ?? {}).map(([name, sub]): [string, JsonSchema] => [`${pointer}/${keyword}/${escapePointer(name)}`, sub])
+  const listed = (keyword: string, schemas?: JsonSchema[]) =>
+    (schemas ?? []).map((sub, index): [string, JsonSchema] => [`${pointer}/${keyword}/${index}`, sub])
+
+  return [
+    ...named("properties", schema.properties),
+    ...named("$defs", schema.$defs),
+    ...named("definitions", schema.definitions),
+    ...(schema.items ? [[`${pointer}/items`, schema.items] as [string, JsonSchema]] : []),
+    ...(typeof schema.additionalProperties === "object" ? [[`${pointer}/additionalProperties`, schema.additionalProperties] as [string, JsonSchema]] : []),
+    ...listed("anyOf", schema.anyOf),
+    ...listed("oneOf", schema.oneOf),
+    ...listed("allOf", schema.allOf)
+  ].filter(([, sub]) => sub && typeof sub === "object")
+}
+
+function checkNode(schema: JsonSchema, root: JsonSchema, pointer: string, problems: string[]) {
+  const at = pointer || "#"
+
+  for (const keyword of UNSUPPORTED_KEYWORDS) {
+    if (keyword in schema) problems.push(`Unsupported keyword "${keyword}" at ${at}`)
+  }
+
+  if (typeof schema.$ref === "string") {
+    // Follow the chain of $refs so a loop that never reaches a real schema is caught here
+    const seen = new Set<string>()
+    let ref: string | undefined = schema.$ref
+    while (typeof ref === "string") {
+      if (seen.has(ref)) {
+        problems.push(`$ref cycle through ${ref} at ${at}`)
+        break
+      }
+      seen.add(ref)
+
+      const { schema: target, error } = resolveRef(root, ref)
+      if (!target) {
+        problems.push(`${error} at ${at}`)
+        break
+      }
+      ref = target.$ref
+    }
+  }
+
+  if (typeof schema.pattern === "string") {
+    const { error } = compilePattern(schema.pattern)
+    if (error) problems.push(`${error} at ${at}`)
+  }
+
+  for (const [subPointer, sub] of subschemas(schema, pointer)) checkNode(sub, root, subPointer, problems)
+}
+
+// Problems in the schema itself (unsupported keywords, broken or looping $refs, invalid patterns), found before any config is validated
+export function checkSchema(schema: JsonSchema, root: JsonSchema = schema): string[] {
+  const problems: string[] = []
+  checkNode(schema, root, "", problems)
+  return problems
+}
+
+// `refs` holds the $refs already followed for this value, so a $ref loop stops instead of recursing forever
+function validateNode(value: unknown, schema: JsonSchema, root: JsonSchema, path: DiffPath, errors: SchemaError[], refs: Set<string>) {
+  const push = (message: string, at: DiffPath = path) => errors.push({ path: at, message })
+  const isValidFor = (sub: JsonSchema) => {
+    const subErrors: SchemaError[] = []
+    validateNode(value, sub, root, path, subErrors, refs)
+    return subErrors.length === 0
+  }
+
+  if (schema.$ref) {
+    const { schema: target, error } = resolveRef(root, schema.$ref)
+    if (refs.has(schema.$ref)) push(`Schema error: $ref cycle through ${schema.$ref}`)
+    else if (target) validateNode(value, target, root, path, errors, new Set(refs).add(schema.$ref))
+    else push(`Schema error: ${error}`)
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some(type => matchesType(value, type))) {
+      push(`Expected ${types.join(" or ")}, got ${valueType(value)}`)
+      // Further keywords would only repeat the type mismatch
+      return
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => deepEqual(option, value))) {
+    push(`Must be one of ${schema.enum.map(option => JSON.stringify(option)).join(", ")}`)
+  }
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    push(`Must equal ${JSON.stringify(schema.const)}`)
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) push(`Must be >= ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) push(`Must be <= ${schema.maximum}`)
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) push(`Must be > ${schema.exclusiveMinimum}`)
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) push(`Must be < ${schema.exclusiveMaximum}`)
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) push(`Must be at least ${schema.minLength} characters`)
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) push(`Must be at most ${schema.maxLength} characters`)
+    if (schema.pattern) {
+      const { regex, error } = compilePattern(schema.pattern)
+      if (!regex) push(`Schema error: ${error}`)
+      else if (!regex.test(value)) push(`Must match ${schema.pattern}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) push(`Must have at least ${schema.minItems} items`)
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) push(`Must have at most ${schema.maxItems} items`)
+    if (schema.items) {
+      value.forEach((item, index) => validateNode(item, schema.items!, root, [...path, index], errors, new Set()))
+    }
+  }
+
+  if (valueType(value) === "object") {
+    const object = value as Record<string, unknown>
+
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) push("Required key is missing", [...path, key])
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        validateNode(item, propertySchema, root, [...path, key], errors, new Set())
+      } else if (schema.additionalProperties === false) {
+        push("Key is not allowed by the schema", [...path, key])
+      } else if (typeof schema.additionalProperties === "object") {
+        validateNode(item, schema.additionalProperties, root, [...path, key], errors, new Set())
+      }
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) validateNode(value, sub, root, path, errors, refs)
+
+  if (schema.anyOf && !schema.anyOf.some(isValidFor)) {
+    push("Does not match any of the allowed shapes")
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(isValidFor).length
+    if (matches !== 1) push(matches ? "Matches more than one of the allowed shapes" : "Does not match any of the allowed shapes")
+  }
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, root: JsonSchema = schema): SchemaError[] {
+  const errors: SchemaError[] = []
+  validateNode(value, schema, root, [], errors, new Set())
+  return errors
+}
+
+// Errors grouped by the top-level key they belong to, for inline display next to form rows
+export function groupErrorsByKey(errors: SchemaError[]): Record<string, string[]> {
+  const grouped: Record<string, string[]> = {}
+  for (const error of errors) {
+    const key = error.path.length ? String(error.path[0]) : ""
+    const nested = error.path.length > 1 ? `${formatPath(error.path.slice(1))}: ` : ""
+    ;(grouped[key] ??= []).push(`${nested}${error.message}`)
+  }
+  return grouped
+}
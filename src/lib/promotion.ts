@@ -0,0 +1,66 @@
+import { deepEqual } from "./configDiff"
+import { createRowId } from "./configValue"
+import type { FetchedConfig } from "@/services/ipnsFetcher"
+
+export type PromotionStatus = "added" | "changed" | "removed" | "same"
+
+export interface PromotionCandidate {
+  key: string
+  status: PromotionStatus
+  sourceValue?: unknown
+  targetValue?: unknown
+  excluded: boolean
+}
+
+// Keys that usually differ per environment and should not be carried over by default
+export const DEFAULT_PROMOTION_EXCLUDE = ["*rpc*"]
+
+// Case-insensitive match where `*` stands for any run of characters
+export function matchesKeyPattern(key: string, pattern: string): boolean {
+  const source = pattern.split("*").map(part => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*")
+  return new RegExp(`^${source}$`, "i").test(key)
+}
+
+export function resolvePromotionExclude(configEnvs?: Record<string, unknown>): string[] {
+  const exclude = configEnvs?.promotionExclude
+  return Array.isArray(exclude) ? exclude.filter((item): item is string => typeof item === "string") : DEFAULT_PROMOTION_EXCLUDE
+}
+
+export function buildPromotionCandidates(source: FetchedConfig[], target: FetchedConfig[], exclude: string[]): PromotionCandidate[] {
+  const sourceMap = new Map(source.map(item => [item.key, item.value as unknown]))
+  const targetMap = new Map(target.map(item => [item.key, item.value as unknown]))
+  const keys = [...new Set([...sourceMap.keys(), ...targetMap.keys()])]
+
+  return keys.map(key => {
+    const inSource = sourceMap.has(key)
+    const inTarget = targetMap.has(key)
+    const sourceValue = sourceMap.get(key)
+    const targetValue = targetMap.get(key)
+
+    let status: PromotionStatus = "same"
+    if (!inTarget) status = "added"
+    else if (!inSource) status = "removed"
+    else if (!deepEqual(sourceValue, targetValue)) status = "changed"
+
+    return {
+      key,
+      status,
+      sourceValue,
+      targetValue,
+      excluded: exclude.some(pattern => matchesKeyPattern(key, pattern)),
+    }
+  })
+}
+
+// Target draft with the selected keys taken from the source; removed keys are dropped from the target
+export function applyPromotion(source: FetchedConfig[], target: FetchedConfig[], keys: Set<string>): FetchedConfig[] {
+  const sourceMap = new Map(source.map(item => [item.key, item]))
+  const draft = target
+    .filter(item => !keys.has(item.key) || sourceMap.has(item.key))
+    .map(item => (keys.has(item.key) ? { ...item, value: sourceMap.get(item.key)!.value } : item))
+
+  for (const item of source) {
+    if (keys.has(item.key) && !target.some(existing => existing.key === item.key)) draft.push({ ...item, id: createRowId() })
+  }
+  return draft
+}
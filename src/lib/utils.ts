@@ -4,3 +4,36 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export function formatDuration(ms: number): string {
+  if (ms <= 0) return "0s"
+
+  const units: [string, number][] = [
+    ["d", 24 * 60 * 60 * 1000],
+    ["h", 60 * 60 * 1000],
+    ["m", 60 * 1000],
+    ["s", 1000],
+  ]
+  const parts: string[] = []
+  let remaining = ms
+
+  for (const [label, size] of units) {
+    const amount = Math.floor(remaining / size)
+    if (amount > 0) {
+      parts.push(`${amount}${label}`)
+      remaining -= amount * size
+    }
+    if (parts.length === 2) break
+  }
+
+  return parts.join(" ") || "<1s"
+}
+
+export function downloadFile(fileName: string, content: string, type = "application/json") {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
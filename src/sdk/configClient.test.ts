@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, test } from 'bun:test';
+import type { FetchResult } from '../services/ipnsFetcher';
+import type { VerifiedIPNSRecord, VerifiedResolveResult } from '../services/ipnsResolver';
+
+const IPNS_NAME = 'k51qzi5uqu5dexample';
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+function verifiedRecord(cid: string, sequence: bigint, ttlMs = 60_000): VerifiedIPNSRecord {
+  return {
+    ipnsName: IPNS_NAME,
+    value: `/ipfs/${cid}`,
+    cid,
+    sequence,
+    validity: new Date(NOW.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    validForMs: 24 * 60 * 60 * 1000,
+    expiresAt: NOW.getTime() + 24 * 60 * 60 * 1000,
+    ttlMs,
+    source: 'https://router.test'
+  };
+}
+
+const resolveVerifiedIPNS = mock(async (): Promise<VerifiedResolveResult> => ({ success: false, error: 'Not mocked' }));
+const fetchFromIPFS = mock(async (cid: string): Promise<FetchResult> => ({ success: true, data: { cid }, ipfsHash: cid, verified: true }));
+
+mock.module('../services/ipnsResolver', () => ({ DEFAULT_DELEGATED_ROUTERS: [], resolveVerifiedIPNS }));
+mock.module('../services/ipnsFetcher', () => ({ fetchFromIPFS, fetchFromIPNS: mock() }));
+
+const { createConfigClient } = await import('./configClient');
+
+function newClient() {
+  return createConfigClient<{ cid: string }>({ ipnsName: IPNS_NAME, persist: false });
+}
+
+beforeEach(() => {
+  setSystemTime(NOW);
+  resolveVerifiedIPNS.mockReset();
+  fetchFromIPFS.mockClear();
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe('createConfigClient', () => {
+  test('serves the cached config until the record TTL runs out', async () => {
+    resolveVerifiedIPNS.mockResolvedValue({ success: true, record: verifiedRecord('bafy-one', 1n, 60_000) });
+    const client = newClient();
+
+    const first = await client.get();
+    expect(first).toMatchObject({ success: true, remote: { config: { cid: 'bafy-one' }, sequence: 1n, verified: true } });
+
+    setSystemTime(new Date(NOW.getTime() + 59_000));
+    await client.get();
+    expect(resolveVerifiedIPNS).toHaveBeenCalledTimes(1);
+
+    setSystemTime(new Date(NOW.getTime() + 61_000));
+    await client.get();
+    expect(resolveVerifiedIPNS).toHaveBeenCalledTimes(2);
+  });
+
+  test('force skips the cache', async () => {
+    resolveVerifiedIPNS.mockResolvedValue({ success: true, record: verifiedRecord('bafy-one', 1n) });
+    const client = newClient();
+
+    await client.get();
+    await client.get({ force: true });
+    expect(resolveVerifiedIPNS).toHaveBeenCalledTimes(2);
+  });
+
+  test('falls back to the last known good config when a refresh fails', async () => {
+    resolveVerifiedIPNS.mockResolvedValueOnce({ success: true, record: verifiedRecord('bafy-one', 1n) });
+    const client = newClient();
+    await client.get();
+
+    resolveVerifiedIPNS.mockResolvedValueOnce({ success: false, error: 'All routers failed' });
+    const result = await client.get({ force: true });
+
+    expect(result).toMatchObject({ success: true, stale: true, error: 'All routers failed', remote: { config: { cid: 'bafy-one' } } });
+  });
+
+  test('reports an error when nothing was ever fetched', async () => {
+    resolveVerifiedIPNS.mockResolvedValueOnce({ success: false, error: 'All routers failed' });
+
+    const result = await newClient().get();
+
+    expect(result).toEqual({ success: false, error: 'All routers failed' });
+    expect(fetchFromIPFS).not.toHaveBeenCalled();
+  });
+
+  test('keeps the newer config when a router returns a lower sequence', async () => {
+    resolveVerifiedIPNS.mockResolvedValueOnce({ success: true, record: verifiedRecord('bafy-two', 2n) });
+    const client = newClient();
+    await client.get();
+
+    resolveVerifiedIPNS.mockResolvedValueOnce({ success: true, record: verifiedRecord('bafy-one', 1n) });
+    const result = await client.get({ force: true });
+
+    expect(result.stale).toBeUndefined();
+    expect(result.remote).toMatchObject({ config: { cid: 'bafy-two' }, sequence: 2n });
+    expect(client.peek()?.sequence).toBe(2n);
+  });
+
+  test('concurrent callers share one in-flight request', async () => {
+    let release: (result: VerifiedResolveResult) => void = () => {};
+    resolveVerifiedIPNS.mockImplementationOnce(() => new Promise(resolve => { release = resolve; }));
+    const client = newClient();
+
+    const pending = [client.get(), client.get(), client.get({ force: true })];
+    release({ success: true, record: verifiedRecord('bafy-one', 1n) });
+    const results = await Promise.all(pending);
+
+    expect(resolveVerifiedIPNS).toHaveBeenCalledTimes(1);
+    expect(fetchFromIPFS).toHaveBeenCalledTimes(1);
+    expect(results.map(result => result.remote?.cid)).toEqual(['bafy-one', 'bafy-one', 'bafy-one']);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Config Client
+ * Reads a published config the same way the editor does: verified IPNS resolve, hash-checked content,
+ * cached for the record's TTL and falling back to the last known good copy when the network fails
+ */
+
+import type { ConfigValue } from '../lib/configValue';
+import { DEFAULT_GATEWAYS, type GatewayOptions } from '../services/gateways';
+import { fetchFromIPFS, fetchFromIPNS } from '../services/ipnsFetcher';
+import { DEFAULT_DELEGATED_ROUTERS, resolveVerifiedIPNS } from '../services/ipnsResolver';
+
+export interface ConfigClientOptions {
+  ipnsName: string;
+  gateways?: string[];
+  // Delegated routers used to fetch the signed IPNS record when verifying
+  routers?: string[];
+  timeoutMs?: number;
+  // Check the record signature and the content hash (default); false trusts the gateway like a plain fetch
+  verify?: boolean;
+  // Cache lifetime when the record TTL is unknown (unverified fetches)
+  defaultTtlMs?: number;
+  // Keep the last known good config in localStorage so it survives reloads
+  persist?: boolean;
+}
+
+export interface RemoteConfig<T> {
+  config: T;
+  ipnsName: string;
+  cid?: string;
+  sequence?: bigint;
+  verified: boolean;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+export interface RemoteConfigResult<T> {
+  success: boolean;
+  remote?: RemoteConfig<T>;
+  // The latest fetch failed and `remote` is the last known good copy
+  stale?: boolean;
+  error?: string;
+}
+
+export interface ConfigClient<T> {
+  ipnsName: string;
+  // Cached config while its TTL lasts, otherwise a fresh fetch
+  get: (options?: { force?: boolean }) => Promise<RemoteConfigResult<T>>;
+  // Last known good config without touching the network
+  peek: () => RemoteConfig<T> | undefined;
+}
+
+const DEFAULT_TTL_MS = 60 * 1000;
+const STORAGE_KEY_PREFIX = 'variables-ui:remote-config:';
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+function loadPersisted<T>(ipnsName: string): RemoteConfig<T> | undefined {
+  try {
+    const stored = getStorage()?.getItem(STORAGE_KEY_PREFIX + ipnsName);
+    if (!stored) return undefined;
+
+    const { sequence, ...remote } = JSON.parse(stored);
+    return { ...remote, sequence: sequence != null ? BigInt(sequence) : undefined };
+  } catch {
+    return undefined;
+  }
+}
+
+function savePersisted<T>(remote: RemoteConfig<T>): void {
+  try {
+    getStorage()?.setItem(STORAGE_KEY_PREFIX + remote.ipnsName, JSON.stringify({ ...remote, sequence: remote.sequence?.toString() }));
+  } catch {
+    // Quota or privacy mode; the in-memory copy still works
+  }
+}
+
+/**
+ * Create a client for one published config
+ */
+export function createConfigClient<T = Record<string, ConfigValue>>(options: ConfigClientOptions): ConfigClient<T> {
+  const { ipnsName, verify = true, defaultTtlMs = DEFAULT_TTL_MS, persist = true } = options;
+  const gatewayOptions: GatewayOptions = { gateways: options.gateways ?? DEFAULT_GATEWAYS, timeoutMs: options.timeoutMs };
+  const routerOptions: GatewayOptions = { gateways: options.routers ?? DEFAULT_DELEGATED_ROUTERS, timeoutMs: options.timeoutMs };
+
+  let lastKnownGood = persist ? loadPersisted<T>(ipnsName) : undefined;
+  let inflight: Promise<RemoteConfigResult<T>> | null = null;
+
+  const load = async (): Promise<RemoteConfig<T>> => {
+    const fetchedAt = Date.now();
+
+    if (!verify) {
+      const content = await fetchFromIPNS(ipnsName, gatewayOptions);
+      if (!content.success || !content.data) throw new Error(content.error ?? 'No content');
+      return { config: content.data as T, ipnsName, cid: content.ipfsHash, verified: false, fetchedAt, expiresAt: fetchedAt + defaultTtlMs };
+    }
+
+    const resolved = await resolveVerifiedIPNS(ipnsName, routerOptions);
+    if (!resolved.success || !resolved.record) throw new Error(resolved.error ?? 'No IPNS record');
+
+    const { record } = resolved;
+    const content = await fetchFromIPFS(record.cid, gatewayOptions);
+    if (!content.success || !content.data) throw new Error(content.error ?? 'No content');
+
+    return {
+      config: content.data as T,
+      ipnsName,
+      cid: record.cid,
+      sequence: record.sequence,
+      verified: true,
+      fetchedAt,
+      // Never cache past the record's own validity
+      expiresAt: Math.min(fetchedAt + record.ttlMs, record.expiresAt)
+    };
+  };
+
+  const refresh = async (): Promise<RemoteConfigResult<T>> => {
+    try {
+      const remote = await load();
+      // A lagging router can hand out an older record than the one already seen
+      if (lastKnownGood?.sequence != null && remote.sequence != null && remote.sequence < lastKnownGood.sequence) {
+        lastKnownGood = { ...lastKnownGood, fetchedAt: remote.fetchedAt, expiresAt: remote.expiresAt };
+        return { success: true, remote: lastKnownGood };
+      }
+
+      lastKnownGood = remote;
+      if (persist) savePersisted(remote);
+      return { success: true, remote };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return lastKnownGood
+        ? { success: true, remote: lastKnownGood, stale: true, error: message }
+        : { success: false, error: message };
+    }
+  };
+
+  return {
+    ipnsName,
+    get: async ({ force = false } = {}) => {
+      if (!force && lastKnownGood && lastKnownGood.expiresAt > Date.now()) {
+        return { success: true, remote: lastKnownGood };
+      }
+
+      // Concurrent callers share one network round trip
+      inflight ??= refresh().finally(() => {
+        inflight = null;
+      });
+      return inflight;
+    },
+    peek: () => lastKnownGood
+  };
+}
@@ -0,0 +1,7 @@
+/**
+ * Consumer SDK
+ * What dApps need to read configs published with this tool
+ */
+
+export { createConfigClient, type ConfigClient, type ConfigClientOptions, type RemoteConfig, type RemoteConfigResult } from './configClient';
+export { useRemoteConfig, type RemoteConfigState } from './useRemoteConfig';
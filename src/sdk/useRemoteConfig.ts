@@ -0,0 +1,60 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ConfigClient, RemoteConfig } from './configClient';
+
+// How soon to retry after a failed fetch
+const RETRY_DELAY_MS = 30 * 1000;
+
+export interface RemoteConfigState<T> {
+  config: T | undefined;
+  remote: RemoteConfig<T> | undefined;
+  loading: boolean;
+  stale: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+/**
+ * Read a published config and refetch it whenever its TTL runs out.
+ * Create the client once (outside the component or with useMemo) so its cache is shared.
+ */
+export function useRemoteConfig<T>(client: ConfigClient<T>): RemoteConfigState<T> {
+  const [remote, setRemote] = useState<RemoteConfig<T> | undefined>(() => client.peek());
+  const [loading, setLoading] = useState(true);
+  const [stale, setStale] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  // Set by refresh() so the next fetch skips the cache
+  const forceNext = useRef(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    setLoading(true);
+    const force = forceNext.current;
+    forceNext.current = false;
+    client.get({ force }).then(result => {
+      if (cancelled) return;
+
+      setRemote(result.remote);
+      setStale(!!result.stale);
+      setError(result.error ?? null);
+      setLoading(false);
+
+      const delay = result.remote && !result.stale ? result.remote.expiresAt - Date.now() : RETRY_DELAY_MS;
+      timer = setTimeout(() => setRefreshKey(key => key + 1), Math.max(delay, 1000));
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [client, refreshKey]);
+
+  const refresh = useCallback(() => {
+    forceNext.current = true;
+    setRefreshKey(key => key + 1);
+  }, []);
+
+  return { config: remote?.config, remote, loading, stale, error, refresh };
+}
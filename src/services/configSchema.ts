@@ -0,0 +1,88 @@
+/**
+ * Config Schema Service
+ * Locates and loads the JSON Schema an environment's config is validated against
+ */
+
+import { fetchVerifiedFile, parseCID } from './ipfsBlocks'
+import type { GatewayOptions } from './gateways'
+import { checkSchema, type JsonSchema } from '../lib/jsonSchema'
+
+// Inline schema, an http(s) URL, or an IPFS reference (`ipfs://<cid>`, `/ipfs/<cid>`)
+export type SchemaReference = JsonSchema | string
+
+export interface SchemaLoadResult {
+  success: boolean
+  schema?: JsonSchema
+  error?: string
+}
+
+const schemaCache = new Map<string, Promise<JsonSchema>>()
+
+/**
+ * The environment's own `configSchema` wins over the shared default in `__env`
+ */
+export function getSchemaReference(
+  environmentConfig: { configSchema?: unknown },
+  configEnvs?: Record<string, unknown>
+): SchemaReference | undefined {
+  const reference = environmentConfig.configSchema ?? configEnvs?.configSchema
+  if (typeof reference === 'string' || (reference && typeof reference === 'object')) {
+    return reference as SchemaReference
+  }
+  return undefined
+}
+
+async function fetchSchema(reference: string, gatewayOptions?: GatewayOptions): Promise<JsonSchema> {
+  let text: string
+  if (/^https?:\/\//.test(reference)) {
+    const response = await fetch(reference)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} fetching ${reference}`)
+    }
+    text = await response.text()
+  } else {
+    // Content-addressed schemas are hash-checked like configs
+    const cid = parseCID(reference.replace(/^ipfs:\/\//, ''))
+    text = new TextDecoder().decode(await fetchVerifiedFile(cid, gatewayOptions))
+  }
+
+  const schema = JSON.parse(text)
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    throw new Error('Schema must be a JSON object')
+  }
+  return schema
+}
+
+function checkLoadedSchema(schema: JsonSchema, label: string): SchemaLoadResult {
+  const problems = checkSchema(schema)
+  if (problems.length) {
+    return { success: false, error: `${label} is invalid: ${problems.join('; ')}` }
+  }
+  return { success: true, schema }
+}
+
+/**
+ * Resolve a schema reference, caching remote schemas for the session
+ */
+export async function loadConfigSchema(reference: SchemaReference, gatewayOptions?: GatewayOptions): Promise<SchemaLoadResult> {
+  if (typeof reference !== 'string') {
+    return checkLoadedSchema(reference, 'Inline schema')
+  }
+
+  let pending = schemaCache.get(reference)
+  if (!pending) {
+    pending = fetchSchema(reference, gatewayOptions)
+    schemaCache.set(reference, pending)
+  }
+
+  try {
+    return checkLoadedSchema(await pending, `Schema ${reference}`)
+  } catch (error) {
+    // Let the next attempt retry instead of caching the failure
+    schemaCache.delete(reference)
+    return {
+      success: false,
+      error: `Could not load schema ${reference}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    }
+  }
+}
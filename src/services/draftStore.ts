@@ -0,0 +1,57 @@
+/**
+ * Draft Service
+ * Autosaves unpublished edits per IPNS name in IndexedDB so they survive reloads
+ */
+
+import { isStorageAvailable, withStore } from './storage';
+import { deepEqual } from '@/lib/configDiff';
+import { toConfigObject } from '@/lib/configValue';
+import type { FetchedConfig } from './ipnsFetcher';
+import type { PublishBase } from './ipnsUpdater';
+
+export interface DraftRecord {
+  ipnsName: string;
+  environmentName: string;
+  rows: FetchedConfig[];
+  // What the draft was fetched from, so publishing it later still detects remote changes
+  baseline?: Record<string, unknown>;
+  base?: PublishBase;
+  updatedAt: number;
+}
+
+const DRAFTS_STORE = 'drafts';
+
+/**
+ * Whether the editor rows differ from the content they were loaded from
+ */
+export function hasUnpublishedChanges(rows: FetchedConfig[] | undefined, baseline: Record<string, unknown> | undefined): boolean {
+  if (!rows) return false;
+  if (!baseline) return rows.length > 0;
+  // Empty or duplicate keys collapse in the object form, so compare row counts too
+  return rows.length !== Object.keys(baseline).length || !deepEqual(toConfigObject(rows), baseline);
+}
+
+/**
+ * Load saved drafts for the given IPNS names, keyed by name
+ */
+export async function loadDrafts(ipnsNames: string[]): Promise<Record<string, DraftRecord>> {
+  if (!isStorageAvailable()) return {};
+
+  const drafts: Record<string, DraftRecord> = {};
+  for (const ipnsName of ipnsNames) {
+    const draft = await withStore<DraftRecord | undefined>(DRAFTS_STORE, 'readonly', store => store.get(ipnsName));
+    if (draft) drafts[ipnsName] = draft;
+  }
+  return drafts;
+}
+
+export async function saveDraft(draft: Omit<DraftRecord, 'updatedAt'>): Promise<void> {
+  if (!isStorageAvailable()) return;
+  const record: DraftRecord = { ...draft, updatedAt: Date.now() };
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function deleteDraft(ipnsName: string): Promise<void> {
+  if (!isStorageAvailable()) return;
+  await withStore(DRAFTS_STORE, 'readwrite', store => store.delete(ipnsName));
+}
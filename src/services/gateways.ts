@@ -0,0 +1,266 @@
+/**
+ * Gateway Service
+ * Races requests across configured IPFS gateways and keeps per-gateway health scores
+ */
+
+export interface GatewayOptions {
+  gateways?: string[];
+  timeoutMs?: number;
+  concurrency?: number;
+}
+
+export interface GatewayStats {
+  successes: number;
+  failures: number;
+  avgLatencyMs: number;
+  lastFailureAt?: number;
+}
+
+export interface GatewayRaceResult<T> {
+  value: T;
+  gateway: string;
+  latencyMs: number;
+}
+
+export interface GatewayFailure {
+  gateway: string;
+  error: string;
+  // HTTP status when the gateway answered with an error response
+  status?: number;
+}
+
+export interface GatewayQueryResult<T> {
+  results: GatewayRaceResult<T>[];
+  failures: GatewayFailure[];
+}
+
+export const DEFAULT_GATEWAYS = [
+  'https://ipfs.io',
+  'https://dweb.link',
+  'https://trustless-gateway.link',
+  'https://4everland.io'
+];
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const DEFAULT_CONCURRENCY = 3;
+const SCORES_STORAGE_KEY = 'variables-ui:gateway-scores';
+// Weight of the newest sample in the rolling latency average
+const LATENCY_SMOOTHING = 0.3;
+
+let memoryScores: Record<string, GatewayStats> = {};
+
+function getStorage(): Storage | null {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load persisted gateway scores (falls back to in-memory scores outside the browser)
+ */
+export function loadGatewayScores(): Record<string, GatewayStats> {
+  const storage = getStorage();
+  if (!storage) return memoryScores;
+
+  try {
+    return JSON.parse(storage.getItem(SCORES_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function saveGatewayScores(scores: Record<string, GatewayStats>): void {
+  memoryScores = scores;
+  getStorage()?.setItem(SCORES_STORAGE_KEY, JSON.stringify(scores));
+}
+
+function recordGatewayResult(gateway: string, ok: boolean, latencyMs?: number): void {
+  const scores = loadGatewayScores();
+  const stats = scores[gateway] ?? { successes: 0, failures: 0, avgLatencyMs: 0 };
+
+  if (ok) {
+    stats.successes += 1;
+    stats.avgLatencyMs = stats.avgLatencyMs
+      ? stats.avgLatencyMs * (1 - LATENCY_SMOOTHING) + (latencyMs ?? 0) * LATENCY_SMOOTHING
+      : latencyMs ?? 0;
+  } else {
+    stats.failures += 1;
+    stats.lastFailureAt = Date.now();
+  }
+
+  saveGatewayScores({ ...scores, [gateway]: stats });
+}
+
+/**
+ * Forget all recorded gateway scores
+ */
+export function resetGatewayScores(): void {
+  memoryScores = {};
+  getStorage()?.removeItem(SCORES_STORAGE_KEY);
+}
+
+/**
+ * Success rate with a Laplace prior so unknown gateways start at 0.5
+ */
+function successRate(stats?: GatewayStats): number {
+  if (!stats) return 0.5;
+  return (stats.successes + 1) / (stats.successes + stats.failures + 2);
+}
+
+/**
+ * Order gateways by health: success rate first, then latency
+ */
+export function rankGateways(gateways: string[]): string[] {
+  const scores = loadGatewayScores();
+
+  return [...gateways].sort((a, b) => {
+    const rateDiff = successRate(scores[b]) - successRate(scores[a]);
+    if (Math.abs(rateDiff) > 0.05) return rateDiff;
+    return (scores[a]?.avgLatencyMs ?? Infinity) - (scores[b]?.avgLatencyMs ?? Infinity);
+  });
+}
+
+/**
+ * Normalize gateway URLs (trim trailing slashes, drop duplicates)
+ */
+function normalizeGateways(gateways: string[]): string[] {
+  return [...new Set(gateways.map(gateway => gateway.trim().replace(/\/+$/, '')).filter(Boolean))];
+}
+
+/**
+ * Build gateway options from the __env section of the structure file
+ */
+export function resolveGatewayOptions(configEnvs?: Record<string, unknown>): GatewayOptions {
+  const gateways = Array.isArray(configEnvs?.gateways)
+    ? (configEnvs.gateways as unknown[]).filter((gateway): gateway is string => typeof gateway === 'string')
+    : undefined;
+
+  return {
+    gateways: gateways?.length ? gateways : undefined,
+    timeoutMs: typeof configEnvs?.gatewayTimeoutMs === 'number' ? configEnvs.gatewayTimeoutMs : undefined,
+    concurrency: typeof configEnvs?.gatewayConcurrency === 'number' ? configEnvs.gatewayConcurrency : undefined
+  };
+}
+
+/**
+ * Request `path` from one gateway, aborting after the timeout or when the race is won elsewhere
+ */
+async function requestGateway<T>(
+  gateway: string,
+  path: string,
+  handler: (response: Response, gateway: string) => Promise<T>,
+  init: RequestInit,
+  timeoutMs: number,
+  raceSignal: AbortSignal
+): Promise<GatewayRaceResult<T>> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const timer = setTimeout(abort, timeoutMs);
+  raceSignal.addEventListener('abort', abort);
+  const startedAt = performance.now();
+
+  try {
+    const response = await fetch(`${gateway}${path}`, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw Object.assign(new Error(`${gateway} responded ${response.status} ${response.statusText}`), { status: response.status });
+    }
+
+    const value = await handler(response, gateway);
+    const latencyMs = performance.now() - startedAt;
+    recordGatewayResult(gateway, true, latencyMs);
+    return { value, gateway, latencyMs };
+  } catch (error) {
+    // Losing the race is not the gateway's fault
+    if (!raceSignal.aborted) {
+      recordGatewayResult(gateway, false);
+    }
+    if (controller.signal.aborted && !raceSignal.aborted) {
+      throw new Error(`${gateway} timed out after ${timeoutMs}ms`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    raceSignal.removeEventListener('abort', abort);
+  }
+}
+
+/**
+ * Race a request across gateways. The healthiest `concurrency` gateways are tried in
+ * parallel first; if all of them fail the next batch is raced, and so on.
+ */
+export async function raceGateways<T>(
+  path: string,
+  handler: (response: Response, gateway: string) => Promise<T>,
+  options: GatewayOptions = {},
+  init: RequestInit = {}
+): Promise<GatewayRaceResult<T>> {
+  const gateways = rankGateways(normalizeGateways(options.gateways ?? DEFAULT_GATEWAYS));
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const errors: string[] = [];
+
+  if (!gateways.length) {
+    throw new Error('No IPFS gateways configured');
+  }
+
+  for (let i = 0; i < gateways.length; i += concurrency) {
+    const batch = gateways.slice(i, i + concurrency);
+    const raceController = new AbortController();
+
+    try {
+      const result = await Promise.any(
+        batch.map(gateway => requestGateway(gateway, path, handler, init, timeoutMs, raceController.signal))
+      );
+      raceController.abort();
+      return result;
+    } catch (error) {
+      if (error instanceof AggregateError) {
+        errors.push(...error.errors.map(e => (e instanceof Error ? e.message : String(e))));
+      } else {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  throw new Error(`All gateways failed: ${errors.join('; ')}`);
+}
+
+/**
+ * Send a request to every gateway at once and collect every answer that arrives within the
+ * timeout, for callers that must compare results instead of taking the fastest one
+ */
+export async function queryAllGateways<T>(
+  path: string,
+  handler: (response: Response, gateway: string) => Promise<T>,
+  options: GatewayOptions = {},
+  init: RequestInit = {}
+): Promise<GatewayQueryResult<T>> {
+  const gateways = normalizeGateways(options.gateways ?? DEFAULT_GATEWAYS);
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if (!gateways.length) {
+    throw new Error('No IPFS gateways configured');
+  }
+
+  // Nobody wins this race, so every request runs until it answers or times out
+  const signal = new AbortController().signal;
+  const settled = await Promise.allSettled(
+    gateways.map(gateway => requestGateway(gateway, path, handler, init, timeoutMs, signal))
+  );
+
+  const query: GatewayQueryResult<T> = { results: [], failures: [] };
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      query.results.push(result.value);
+    } else {
+      query.failures.push({
+        gateway: gateways[index],
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+        status: (result.reason as { status?: number } | undefined)?.status
+      });
+    }
+  });
+  return query;
+}
@@ -0,0 +1,75 @@
+/**
+ * History Service
+ * Records every fetched and published version of an environment in IndexedDB
+ */
+
+import { isStorageAvailable, withStore } from './storage';
+
+export type HistoryEventKind = 'fetch' | 'publish' | 'rollback' | 'republish' | 'rotate' | 'propose' | 'approve';
+
+export interface HistoryEntry {
+  id?: number;
+  ipnsName: string;
+  environmentName: string;
+  kind: HistoryEventKind;
+  cid: string;
+  timestamp: number;
+  sequence?: bigint;
+  note?: string;
+  // Links a proposal to the approval that published it
+  proposalId?: string;
+}
+
+const HISTORY_STORE = 'history';
+
+/**
+ * List history entries for an IPNS name, newest first
+ */
+export async function listHistory(ipnsName: string): Promise<HistoryEntry[]> {
+  if (!isStorageAvailable()) return [];
+
+  const entries = await withStore<HistoryEntry[]>(HISTORY_STORE, 'readonly', store => (
+    store.index('ipnsName').getAll(ipnsName)
+  ));
+
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * The newest version this browser saw live for an IPNS name, with its sequence
+ */
+export async function findLastPublished(ipnsName: string): Promise<{ cid: string; sequence: bigint } | null> {
+  try {
+    const entry = (await listHistory(ipnsName)).find(entry => entry.kind !== 'propose' && entry.sequence != null);
+    return entry ? { cid: entry.cid, sequence: entry.sequence! } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Append an entry to an environment's history.
+ * Fetches are only recorded when the CID differs from the most recent entry,
+ * and a proposal only once however often it is exported or imported.
+ */
+export async function recordHistory(entry: Omit<HistoryEntry, 'id' | 'timestamp'>): Promise<HistoryEntry | null> {
+  if (!isStorageAvailable()) return null;
+
+  try {
+    if (entry.kind === 'fetch') {
+      const [latest] = await listHistory(entry.ipnsName);
+      if (latest?.cid === entry.cid) return null;
+    }
+    if (entry.kind === 'propose' && entry.proposalId) {
+      const entries = await listHistory(entry.ipnsName);
+      if (entries.some(existing => existing.kind === 'propose' && existing.proposalId === entry.proposalId)) return null;
+    }
+
+    const record: HistoryEntry = { ...entry, timestamp: Date.now() };
+    const id = await withStore(HISTORY_STORE, 'readwrite', store => store.add(record));
+    return { ...record, id: id as number };
+  } catch (error) {
+    console.warn('⚠️ Could not record history:', error);
+    return null;
+  }
+}
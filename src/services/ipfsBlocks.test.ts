@@ -0,0 +1,78 @@
+import { describe, expect, test } from 'bun:test'
+import * as dagPb from '@ipld/dag-pb'
+import { UnixFS } from 'ipfs-unixfs'
+import { CID } from 'multiformats/cid'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { cidsEqual, computeFileCID, matchesFileCID, verifyBlock } from './ipfsBlocks'
+
+const HELLO = new TextEncoder().encode('hello world\n')
+// 1000 bytes, so small chunk sizes give several leaves
+const MULTI_CHUNK = Uint8Array.from({ length: 1000 }, (_, i) => i % 251)
+
+// Expected CIDs produced with ipfs-unixfs-importer (balanced layout, fixed-size chunker)
+const KNOWN_CIDS: [string, Uint8Array, Parameters<typeof computeFileCID>[1], string][] = [
+  ['the empty file', new Uint8Array(), {}, 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH'],
+  ['"hello world\\n" as CIDv0', HELLO, {}, 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o'],
+  ['"hello world\\n" as CIDv1 with raw leaves', HELLO, { cidVersion: 1, rawLeaves: true }, 'bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4'],
+  ['a multi-chunk file as CIDv0', MULTI_CHUNK, { chunkSize: 256 }, 'QmdEUq91oFKxLVDC8RHVgZJGzm55w7DTj1E6QcBbmNXFKa'],
+  ['a multi-chunk file with raw leaves', MULTI_CHUNK, { cidVersion: 1, rawLeaves: true, chunkSize: 256 }, 'bafybeickcfkwinfwpq7iwmtc62kxgkiucg7j7vmkpwyz57yeemrj2cdf4e'],
+  ['a multi-level tree', MULTI_CHUNK, { cidVersion: 1, rawLeaves: true, chunkSize: 100, maxChildrenPerNode: 3 }, 'bafybeigaa5c6es3yqfu4lag76ihqyoibyxyiad4dkoq4qqmxtqel6u4xqe']
+]
+
+describe('computeFileCID', () => {
+  test.each(KNOWN_CIDS)('matches the importer for %s', async (_, bytes, options, expected) => {
+    expect((await computeFileCID(bytes, options)).toString()).toBe(expected)
+  })
+
+  test('refuses raw leaves with CIDv0', async () => {
+    await expect(computeFileCID(HELLO, { cidVersion: 0, rawLeaves: true })).rejects.toThrow('Raw leaves require CIDv1')
+  })
+})
+
+describe('matchesFileCID', () => {
+  test('accepts a CID from another common layout', async () => {
+    expect(await matchesFileCID(HELLO, 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o', { cidVersion: 1, rawLeaves: true })).toBe(true)
+  })
+
+  test('rejects a CID of different bytes', async () => {
+    expect(await matchesFileCID(new TextEncoder().encode('hello world'), 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')).toBe(false)
+  })
+
+  test('rejects a malformed CID', async () => {
+    expect(await matchesFileCID(HELLO, 'not-a-cid')).toBe(false)
+  })
+})
+
+describe('verifyBlock', () => {
+  const leaf = dagPb.encode(dagPb.prepare({ Data: new UnixFS({ type: 'file', data: HELLO }).marshal() }))
+
+  test('accepts the block a CID was computed from', async () => {
+    const cid = CID.createV0(await sha256.digest(leaf))
+
+    expect(cid.toString()).toBe('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')
+    await verifyBlock(cid, leaf)
+  })
+
+  test('rejects a tampered block', async () => {
+    const cid = CID.parse('QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o')
+    const tampered = leaf.slice()
+    tampered[tampered.length - 2] ^= 1
+
+    await expect(verifyBlock(cid, tampered)).rejects.toThrow(`Block does not match ${cid}`)
+  })
+
+  test('rejects a raw block with different content', async () => {
+    const cid = CID.parse('bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4')
+
+    await expect(verifyBlock(cid, new TextEncoder().encode('hello world!\n'))).rejects.toThrow()
+  })
+})
+
+describe('cidsEqual', () => {
+  test('treats CIDv0 and its CIDv1 spelling as the same content', () => {
+    const v0 = 'QmT78zSuBmuS4z925WZfrqQ1qHaJ56DQaTfyMUF7F8ff5o'
+
+    expect(cidsEqual(v0, CID.parse(v0).toV1().toString())).toBe(true)
+    expect(cidsEqual(v0, 'bafkreifjjcie6lypi6ny7amxnfftagclbuxndqonfipmb64f2km2devei4')).toBe(false)
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * IPFS Block Service
+ * Fetches raw blocks from gateways and verifies them against their CIDs locally
+ */
+
+import * as dagPb from '@ipld/dag-pb'
+import { UnixFS } from 'ipfs-unixfs'
+import { CID } from 'multiformats/cid'
+import { identity } from 'multiformats/hashes/identity'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { equals as uint8ArrayEquals } from 'uint8arrays/equals'
+import { raceGateways, type GatewayOptions } from './gateways'
+
+const RAW_CODEC = 0x55
+const RAW_BLOCK_CONTENT_TYPE = 'application/vnd.ipld.raw'
+// Configs are tiny; anything bigger than this is not something we published
+const MAX_BLOCKS = 1024
+
+/**
+ * Check that `bytes` hash to the multihash embedded in `cid`
+ */
+export async function verifyBlock(cid: CID, bytes: Uint8Array): Promise<void> {
+  let digest
+  switch (cid.multihash.code) {
+    case sha256.code:
+      digest = await sha256.digest(bytes)
+      break
+    case identity.code:
+      digest = identity.digest(bytes)
+      break
+    default:
+      throw new Error(`Unsupported multihash 0x${cid.multihash.code.toString(16)} in ${cid}`)
+  }
+
+  if (!uint8ArrayEquals(digest.bytes, cid.multihash.bytes)) {
+    throw new Error(`Block does not match ${cid}`)
+  }
+}
+
+/**
+ * Fetch a single block as `application/vnd.ipld.raw` and verify it before returning
+ */
+export async function fetchVerifiedBlock(cid: CID, gatewayOptions?: GatewayOptions): Promise<Uint8Array> {
+  // Identity CIDs carry their content inline
+  if (cid.multihash.code === identity.code) {
+    return cid.multihash.digest
+  }
+
+  const { value } = await raceGateways(`/ipfs/${cid}?format=raw`, async (response, gateway) => {
+    const bytes = new Uint8Array(await response.arrayBuffer())
+
+    try {
+      await verifyBlock(cid, bytes)
+    } catch (error) {
+      throw new Error(`${gateway} served unverifiable content: ${error instanceof Error ? error.message : String(error)}`)
+    }
+
+    return bytes
+  }, gatewayOptions, {
+    headers: { Accept: RAW_BLOCK_CONTENT_TYPE }
+  })
+
+  return value
+}
+
+/**
+ * Fetch a file by CID block by block, verifying every block, and return its bytes.
+ * Supports raw leaves and (possibly chunked) UnixFS dag-pb files.
+ */
+export async function fetchVerifiedFile(cid: CID, gatewayOptions?: GatewayOptions): Promise<Uint8Array> {
+  const chunks: Uint8Array[] = []
+  let blockCount = 0
+
+  const walk = async (blockCid: CID): Promise<void> => {
+    if (++blockCount > MAX_BLOCKS) {
+      throw new Error(`${cid} has more than ${MAX_BLOCKS} blocks`)
+    }
+
+    const bytes = await fetchVerifiedBlock(blockCid, gatewayOptions)
+
+    if (blockCid.code === RAW_CODEC) {
+      chunks.push(bytes)
+      return
+    }
+
+    if (blockCid.code !== dagPb.code) {
+      throw new Error(`Unsupported codec 0x${blockCid.code.toString(16)} in ${blockCid}`)
+    }
+
+    const node = dagPb.decode(bytes)
+    if (!node.Data) {
+      throw new Error(`${blockCid} is not a UnixFS node`)
+    }
+
+    const unixfs = UnixFS.unmarshal(node.Data)
+    if (unixfs.type !== 'file' && unixfs.type !== 'raw') {
+      throw new Error(`${blockCid} is a UnixFS ${unixfs.type}, expected a file`)
+    }
+
+    if (unixfs.data) {
+      chunks.push(unixfs.data)
+    }
+
+    for (const link of node.Links) {
+      await walk(link.Hash)
+    }
+  }
+
+  await walk(cid)
+
+  const size = chunks.reduce((total, chunk) => total + chunk.length, 0)
+  const file = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    file.set(chunk, offset)
+    offset += chunk.length
+  }
+
+  return file
+}
+
+/**
+ * Parse a CID string, accepting `/ipfs/<cid>` paths as well
+ */
+export function parseCID(value: string): CID {
+  return CID.parse(value.replace(/^\/ipfs\//, '').split('/')[0])
+}
+
+export interface FileCIDOptions {
+  cidVersion: 0 | 1;
+  rawLeaves: boolean;
+  chunkSize: number;
+  maxChildrenPerNode: number;
+}
+
+// Kubo `ipfs add` defaults
+export const DEFAULT_FILE_CID_OPTIONS: FileCIDOptions = {
+  cidVersion: 0,
+  rawLeaves: false,
+  chunkSize: 256 * 1024,
+  maxChildrenPerNode: 174
+}
+
+interface DagNode {
+  cid: CID;
+  // Size of the file content below this node
+  fileSize: bigint;
+  // Size of the encoded block plus all blocks below it (dag-pb Tsize)
+  dagSize: number;
+}
+
+/**
+ * Compute the CID a UnixFS importer (balanced layout, fixed-size chunker) would assign to
+ * `bytes`, so uploads can be checked against the CID the pinning provider reports back
+ */
+export async function computeFileCID(bytes: Uint8Array, options: Partial<FileCIDOptions> = {}): Promise<CID> {
+  const { cidVersion, rawLeaves, chunkSize, maxChildrenPerNode } = { ...DEFAULT_FILE_CID_OPTIONS, ...options }
+
+  if (rawLeaves && cidVersion === 0) {
+    throw new Error('Raw leaves require CIDv1')
+  }
+
+  const createCID = async (code: number, block: Uint8Array): Promise<CID> => {
+    const digest = await sha256.digest(block)
+    return cidVersion === 0 ? CID.createV0(digest) : CID.createV1(code, digest)
+  }
+
+  const leaves: DagNode[] = []
+  for (let offset = 0; offset < bytes.length || offset === 0; offset += chunkSize) {
+    const chunk = bytes.subarray(offset, offset + chunkSize)
+
+    if (rawLeaves) {
+      leaves.push({ cid: await createCID(RAW_CODEC, chunk), fileSize: BigInt(chunk.length), dagSize: chunk.length })
+    } else {
+      const block = dagPb.encode(dagPb.prepare({ Data: new UnixFS({ type: 'file', data: chunk }).marshal() }))
+      leaves.push({ cid: await createCID(dagPb.code, block), fileSize: BigInt(chunk.length), dagSize: block.length })
+    }
+
+    if (bytes.length === 0) break
+  }
+
+  // Reduce level by level until a single root is left
+  let level = leaves
+  while (level.length > 1) {
+    const parents: DagNode[] = []
+
+    for (let i = 0; i < level.length; i += maxChildrenPerNode) {
+      const children = level.slice(i, i + maxChildrenPerNode)
+      const unixfs = new UnixFS({ type: 'file' })
+      children.forEach(child => unixfs.addBlockSize(child.fileSize))
+
+      const block = dagPb.encode(dagPb.prepare({
+        Data: unixfs.marshal(),
+        Links: children.map(child => ({ Hash: child.cid, Name: '', Tsize: child.dagSize }))
+      }))
+
+      parents.push({
+        cid: await createCID(dagPb.code, block),
+        fileSize: children.reduce((total, child) => total + child.fileSize, 0n),
+        dagSize: block.length + children.reduce((total, child) => total + child.dagSize, 0)
+      })
+    }
+
+    level = parents
+  }
+
+  return level[0].cid
+}
+
+/**
+ * Compare two CIDs by content, ignoring CIDv0/CIDv1 and multibase differences
+ */
+export function cidsEqual(a: string, b: string): boolean {
+  try {
+    const left = parseCID(a)
+    const right = parseCID(b)
+    return left.code === right.code && uint8ArrayEquals(left.multihash.bytes, right.multihash.bytes)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Check that `reportedCid` is the CID of `bytes` under the expected layout or any other
+ * common importer layout, i.e. the provider stored exactly these bytes
+ */
+export async function matchesFileCID(
+  bytes: Uint8Array,
+  reportedCid: string,
+  expectedOptions: Partial<FileCIDOptions> = {}
+): Promise<boolean> {
+  const candidates: Partial<FileCIDOptions>[] = [expectedOptions]
+  for (const chunkSize of [256 * 1024, 1024 * 1024]) {
+    candidates.push(
+      { cidVersion: 0, rawLeaves: false, chunkSize },
+      { cidVersion: 1, rawLeaves: true, chunkSize },
+      { cidVersion: 1, rawLeaves: false, chunkSize }
+    )
+  }
+
+  for (const candidate of candidates) {
+    const cid = await computeFileCID(bytes, { ...expectedOptions, ...candidate })
+    if (cidsEqual(cid.toString(), reportedCid)) {
+      return true
+    }
+  }
+
+  return false
+}
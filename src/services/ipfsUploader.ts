@@ -1,80 +1,71 @@
 /**
  * IPFS Upload Service
- * Handles uploading configuration data to IPFS via QuickNode
+ * Handles uploading configuration data to IPFS via the configured pinning provider
  */
 
+import { getExpectedCIDOptions, getPinningProvider, type PinningSettings } from './pinningProviders';
+import { computeFileCID, matchesFileCID } from './ipfsBlocks';
 
 export interface UploadResult {
   success: boolean;
   ipfsHash?: string;
+  // CID computed locally from the uploaded bytes
+  expectedIpfsHash?: string;
+  // False when the provider reported a CID that does not match the uploaded bytes
+  cidMatches?: boolean;
   error?: string;
 }
 
 /**
- * Get QuickNode API key from config or environment
+ * Serialize a config exactly as it is uploaded
  */
-function getQuickNodeApiKey(apiKey?: string): string {
-  const key = apiKey;
-
-  if (!key) {
-    throw new Error('QuickNode API key is required - either from config.__env.quickNodeApiKey');
-  }
+export function serializeConfig(config: Record<string, unknown>): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(config, null, 2));
+}
 
-  return key;
+/**
+ * Compute the CID the selected provider should return for this config
+ */
+export async function computeConfigCID(config: Record<string, unknown>, pinningSettings: PinningSettings): Promise<string> {
+  const cid = await computeFileCID(serializeConfig(config), getExpectedCIDOptions(pinningSettings));
+  return cid.toString();
 }
 
 /**
- * Upload configuration data to IPFS via QuickNode
+ * Upload configuration data to IPFS via the selected pinning provider
  */
 export async function uploadConfigToIPFS(
   config: Record<string, unknown>,
   environmentName: string,
-  quickNodeApiKey?: string
+  pinningSettings: PinningSettings
 ): Promise<UploadResult> {
   try {
-    const apiKey = getQuickNodeApiKey(quickNodeApiKey);
+    const provider = getPinningProvider(pinningSettings);
 
-    // Create JSON string from config
-    const jsonString = JSON.stringify(config, null, 2);
-    const fileName = `env-${environmentName}.json`;
+    if (!provider.isConfigured(pinningSettings)) {
+      throw new Error(`${provider.label} is not configured: ${provider.missingConfigMessage}`);
+    }
 
-    // Create FormData for QuickNode API
-    const formData = new FormData();
-    
-    // Create Blob from JSON string
-    const jsonBlob = new Blob([jsonString], { type: 'application/json' });
-    
-    // Append to FormData using QuickNode format
-    formData.append("Body", jsonBlob, fileName);
-    formData.append("Key", fileName);
-    formData.append("ContentType", "application/json");
+    // Serialize once so the local CID is computed over exactly the uploaded bytes
+    const bytes = serializeConfig(config);
+    const fileName = `env-${environmentName}.json`;
+    const cidOptions = getExpectedCIDOptions(pinningSettings);
+    const expectedIpfsHash = (await computeFileCID(bytes, cidOptions)).toString();
 
-    // Upload to QuickNode
-    const response = await fetch("https://api.quicknode.com/ipfs/rest/v1/s3/put-object", {
-      method: 'POST',
-      headers: {
-        'x-api-key': apiKey
-      },
-      body: formData
-    });
+    // Create Blob from JSON bytes
+    const jsonBlob = new Blob([bytes], { type: 'application/json' });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`QuickNode upload failed: ${response.status} - ${errorText}`);
-    }
+    const ipfsHash = await provider.upload(jsonBlob, fileName, pinningSettings);
 
-    const result = await response.json();
-    
-    // Extract CID from QuickNode response
-    const ipfsHash = result.pin?.cid || result.cid || result.hash;
-    
     if (!ipfsHash) {
-      throw new Error('No IPFS hash returned from QuickNode');
+      throw new Error(`No IPFS hash returned from ${provider.label}`);
     }
 
     return {
       success: true,
-      ipfsHash: ipfsHash
+      ipfsHash: ipfsHash,
+      expectedIpfsHash,
+      cidMatches: await matchesFileCID(bytes, ipfsHash, cidOptions)
     };
   } catch (error) {
     return {
@@ -85,20 +76,29 @@ export async function uploadConfigToIPFS(
 }
 
 /**
- * Check if QuickNode is configured (either via env or config)
+ * Check if the selected pinning provider has everything it needs
  */
-export function isQuickNodeConfigured(quickNodeApiKey?: string): boolean {
-  return !!(quickNodeApiKey);
+export function isPinningConfigured(pinningSettings: PinningSettings): boolean {
+  try {
+    return getPinningProvider(pinningSettings).isConfigured(pinningSettings);
+  } catch {
+    return false;
+  }
 }
 
 /**
  * Get upload status message
  */
-export function getUploadStatusMessage(environmentName: string): string {
-  if (!isQuickNodeConfigured()) {
-    return 'QuickNode not configured. Please set quickNodeApiKey in _env section in config';
+export function getUploadStatusMessage(environmentName: string, pinningSettings: PinningSettings): string {
+  let provider;
+  try {
+    provider = getPinningProvider(pinningSettings);
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Unknown pinning provider';
   }
-  return `Ready to upload ${environmentName} configuration to IPFS via QuickNode`;
-}
-
 
+  if (!provider.isConfigured(pinningSettings)) {
+    return `${provider.label} not configured. ${provider.missingConfigMessage}`;
+  }
+  return `Ready to upload ${environmentName} configuration to IPFS via ${provider.label}`;
+}
@@ -4,58 +4,82 @@
  * Handles fetching configuration data from IPNS
  */
 
+import { raceGateways, type GatewayOptions } from './gateways';
+import { fetchVerifiedFile, parseCID } from './ipfsBlocks';
+import type { ConfigValue } from '../lib/configValue';
+
 export interface FetchedConfig {
+  // Stable row identity so edits don't depend on the key, which the user may be changing
+  id: string;
   key: string;
-  value: string | FetchedConfig;
+  value: ConfigValue;
 }
 
 export interface FetchResult {
   success: boolean;
-  data?: FetchedConfig;
+  data?: Record<string, ConfigValue>;
   ipfsHash?: string;
+  verified?: boolean;
   error?: string;
 }
 
 /**
- * Fetch content from IPNS using the provided public key
+ * Fetch content from IPNS using the provided public key, racing the configured gateways.
+ * The gateway is trusted for both resolution and content, so results are marked unverified.
  */
-export async function fetchFromIPNS(ipnsKey: string): Promise<FetchResult> {
+export async function fetchFromIPNS(ipnsKey: string, gatewayOptions?: GatewayOptions): Promise<FetchResult> {
   try {
+    const { value } = await raceGateways(`/ipns/${ipnsKey}`, async (response) => {
+      // Extract IPFS hash from response headers or URL redirects
+      let ipfsHash: string | undefined;
+
+      // Check if we can get the IPFS hash from the X-Ipfs-Roots header
+      const ipfsRoots = response.headers.get('X-Ipfs-Roots');
+      if (ipfsRoots) {
+        // X-Ipfs-Roots contains the actual IPFS hash directly
+        ipfsHash = ipfsRoots.split(',')[0].trim();
+      }
 
+      // Also check the final URL after redirects
+      if (!ipfsHash && response.url) {
+        const urlHashMatch = response.url.match(/\/ipfs\/([a-zA-Z0-9]+)/);
+        if (urlHashMatch) {
+          ipfsHash = urlHashMatch[1];
+        }
+      }
 
-    const response = await fetch(`https://ipfs.io/ipns/${ipnsKey}`);
-
-    if (!response.ok) {
-      return {
-        success: false,
-        error: `Failed to fetch: ${response.status} ${response.statusText}`
-      };
-    }
-
-
-    // Extract IPFS hash from response headers or URL redirects
-    let ipfsHash: string | undefined;
+      const data = await response.json();
+      return { data, ipfsHash };
+    }, gatewayOptions);
 
-    // Check if we can get the IPFS hash from the X-Ipfs-Roots header
-    const ipfsRoots = response.headers.get('X-Ipfs-Roots');
-    if (ipfsRoots) {
-      // X-Ipfs-Roots contains the actual IPFS hash directly
-      ipfsHash = ipfsRoots.trim();
-    }
+    return {
+      success: true,
+      data: value.data,
+      ipfsHash: value.ipfsHash,
+      verified: false
+    };
+  } catch (err) {
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : 'Unknown error'
+    };
+  }
+}
 
-    // Also check the final URL after redirects
-    if (!ipfsHash && response.url) {
-      const urlHashMatch = response.url.match(/\/ipfs\/([a-zA-Z0-9]+)/);
-      if (urlHashMatch) {
-        ipfsHash = urlHashMatch[1];
-      }
-    }
+/**
+ * Fetch content by CID trustlessly: raw blocks are hash-checked locally before the JSON is decoded
+ */
+export async function fetchFromIPFS(ipfsHash: string, gatewayOptions?: GatewayOptions): Promise<FetchResult> {
+  try {
+    const cid = parseCID(ipfsHash);
+    const bytes = await fetchVerifiedFile(cid, gatewayOptions);
+    const data = JSON.parse(new TextDecoder().decode(bytes));
 
-    const data = await response.json();
     return {
       success: true,
       data,
-      ipfsHash
+      ipfsHash: cid.toString(),
+      verified: true
     };
   } catch (err) {
     return {
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, mock, setSystemTime, spyOn, test } from 'bun:test';
+import { generateKeyPair } from '@libp2p/crypto/keys';
+import { peerIdFromPrivateKey } from '@libp2p/peer-id';
+import { createIPNSRecord, marshalIPNSRecord } from 'ipns';
+import { base36 } from 'multiformats/bases/base36';
+import { resetGatewayScores } from './gateways';
+import { resolveVerifiedIPNS, verifyIPNSRecord } from './ipnsResolver';
+
+const CID_ONE = 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH';
+const CID_TWO = 'bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e';
+const LIFETIME_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-01-01T00:00:00Z');
+
+const key = await generateKeyPair('Ed25519');
+const otherKey = await generateKeyPair('Ed25519');
+const ipnsName = peerIdFromPrivateKey(key).toCID().toString(base36);
+
+async function signedRecord(cid: string, sequence: bigint, signingKey = key): Promise<Uint8Array> {
+  return marshalIPNSRecord(await createIPNSRecord(signingKey, `/ipfs/${cid}`, sequence, LIFETIME_MS));
+}
+
+// Answer each router from its own entry; a missing entry is a 404
+function mockRouters(records: Record<string, Uint8Array>) {
+  globalThis.fetch = mock(async (input: string | URL | Request) => {
+    const url = String(input);
+    const router = Object.keys(records).find(origin => url.startsWith(origin));
+    return router
+      ? new Response(records[router], { headers: { 'Content-Type': 'application/vnd.ipfs.ipns-record' } })
+      : new Response('not found', { status: 404, statusText: 'Not Found' });
+  }) as unknown as typeof fetch;
+}
+
+const originalFetch = globalThis.fetch;
+
+beforeEach(() => {
+  setSystemTime(NOW);
+  resetGatewayScores();
+});
+
+afterEach(() => {
+  setSystemTime();
+  globalThis.fetch = originalFetch;
+});
+
+describe('verifyIPNSRecord', () => {
+  test('decodes a record signed by the name\'s key', async () => {
+    const record = await verifyIPNSRecord(ipnsName, await signedRecord(CID_ONE, 3n), 'https://router.test');
+
+    expect(record).toMatchObject({ ipnsName, cid: CID_ONE, sequence: 3n, source: 'https://router.test' });
+    expect(record.expiresAt).toBe(NOW.getTime() + LIFETIME_MS);
+    expect(record.expired).toBeUndefined();
+  });
+
+  test('rejects a record signed by another key', async () => {
+    const bytes = await signedRecord(CID_ONE, 3n, otherKey);
+
+    await expect(verifyIPNSRecord(ipnsName, bytes, 'https://router.test')).rejects.toThrow();
+  });
+
+  test('rejects an expired record unless expired records are allowed', async () => {
+    const bytes = await signedRecord(CID_ONE, 3n);
+    setSystemTime(new Date(NOW.getTime() + LIFETIME_MS + 1000));
+
+    await expect(verifyIPNSRecord(ipnsName, bytes, 'https://router.test')).rejects.toThrow();
+    const record = await verifyIPNSRecord(ipnsName, bytes, 'https://router.test', { allowExpired: true });
+    expect(record).toMatchObject({ sequence: 3n, expired: true, expiresAt: NOW.getTime() + LIFETIME_MS });
+  });
+});
+
+describe('resolveVerifiedIPNS', () => {
+  test('picks the highest sequence across routers', async () => {
+    mockRouters({
+      'https://lagging.test': await signedRecord(CID_ONE, 1n),
+      'https://current.test': await signedRecord(CID_TWO, 2n)
+    });
+
+    const result = await resolveVerifiedIPNS(ipnsName, { gateways: ['https://lagging.test', 'https://current.test'] });
+
+    expect(result.success).toBe(true);
+    expect(result.record).toMatchObject({ cid: CID_TWO, sequence: 2n, source: 'https://current.test' });
+  });
+
+  test('ignores a router that serves a forged record with a higher sequence', async () => {
+    mockRouters({
+      'https://honest.test': await signedRecord(CID_ONE, 1n),
+      'https://forged.test': await signedRecord(CID_TWO, 9n, otherKey)
+    });
+
+    const result = await resolveVerifiedIPNS(ipnsName, { gateways: ['https://honest.test', 'https://forged.test'] });
+
+    expect(result.record).toMatchObject({ cid: CID_ONE, sequence: 1n });
+  });
+
+  test('reports a name no router has a record for as not found', async () => {
+    mockRouters({});
+
+    const result = await resolveVerifiedIPNS(ipnsName, { gateways: ['https://one.test', 'https://two.test'] });
+
+    expect(result).toEqual({ success: false, notFound: true, error: `No IPNS record has been published for ${ipnsName}` });
+  });
+
+  test('fails when no router returns a verifiable record', async () => {
+    mockRouters({ 'https://forged.test': await signedRecord(CID_TWO, 9n, otherKey) });
+    const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await resolveVerifiedIPNS(ipnsName, { gateways: ['https://forged.test', 'https://missing.test'] });
+
+    expect(result.success).toBe(false);
+    expect(result.notFound).toBeUndefined();
+    expect(result.error).toContain('unverifiable IPNS record');
+    expect(result.error).toContain('404');
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * IPNS Resolver Service
+ * Resolves IPNS names through delegated routing and verifies the signed records
+ */
+
+import { peerIdFromString } from '@libp2p/peer-id'
+import { multihashToIPNSRoutingKey, unmarshalIPNSRecord } from 'ipns'
+import { ipnsValidator, validFor } from 'ipns/validator'
+import { CID } from 'multiformats/cid'
+import { queryAllGateways, type GatewayOptions } from './gateways'
+
+export interface VerifiedIPNSRecord {
+  ipnsName: string;
+  value: string;
+  cid: string;
+  sequence: bigint;
+  validity: string;
+  validForMs: number;
+  expiresAt: number;
+  ttlMs: number;
+  source: string;
+  // Only set when the caller allowed expired records; the signature was still checked
+  expired?: boolean;
+}
+
+export interface VerifiedResolveResult {
+  success: boolean;
+  record?: VerifiedIPNSRecord;
+  // Every router answered that the name has no record, as opposed to routers being unreachable
+  notFound?: boolean;
+  error?: string;
+}
+
+export interface VerifyIPNSOptions {
+  // Accept a correctly signed record past its validity, e.g. to re-sign it or to show that it expired
+  allowExpired?: boolean;
+}
+
+export const DEFAULT_DELEGATED_ROUTERS = ['https://delegated-ipfs.dev'];
+
+const IPNS_RECORD_CONTENT_TYPE = 'application/vnd.ipfs.ipns-record';
+
+/**
+ * Build router options from the __env section (`delegatedRouters`, `gatewayTimeoutMs`)
+ */
+export function resolveRouterOptions(configEnvs?: Record<string, unknown>): GatewayOptions {
+  const routers = Array.isArray(configEnvs?.delegatedRouters)
+    ? (configEnvs.delegatedRouters as unknown[]).filter((router): router is string => typeof router === 'string')
+    : [];
+
+  return {
+    gateways: routers.length ? routers : DEFAULT_DELEGATED_ROUTERS,
+    timeoutMs: typeof configEnvs?.gatewayTimeoutMs === 'number' ? configEnvs.gatewayTimeoutMs : undefined
+  };
+}
+
+/**
+ * Get the binary routing key (`/ipns/` + multihash of the public key) for an IPNS name
+ */
+export function getIPNSRoutingKey(ipnsName: string): Uint8Array {
+  const peerId = peerIdFromString(ipnsName)
+  return multihashToIPNSRoutingKey(peerId.toMultihash())
+}
+
+/**
+ * Verify a marshalled IPNS record against the expected IPNS name and decode it
+ */
+export async function verifyIPNSRecord(
+  ipnsName: string,
+  marshalledRecord: Uint8Array,
+  source: string,
+  options: VerifyIPNSOptions = {}
+): Promise<VerifiedIPNSRecord> {
+  // Throws when the signature does not match the key, the record is malformed or expired
+  let expired = false
+  try {
+    await ipnsValidator(getIPNSRoutingKey(ipnsName), marshalledRecord)
+  } catch (error) {
+    // The validator checks the signature before the expiry, so an expired record is still authentic
+    if (!options.allowExpired || (error as Error)?.name !== 'RecordExpiredError') throw error
+    expired = true
+  }
+
+  const record = unmarshalIPNSRecord(marshalledRecord)
+  const cidMatch = record.value.match(/^\/ipfs\/([^/]+)/)
+  if (!cidMatch) {
+    throw new Error(`IPNS record points to "${record.value}", expected an /ipfs/ path`)
+  }
+
+  const validForMs = validFor(record)
+
+  return {
+    ipnsName,
+    value: record.value,
+    cid: CID.parse(cidMatch[1]).toString(),
+    sequence: record.sequence,
+    validity: record.validity,
+    validForMs,
+    expiresAt: expired ? Date.parse(record.validity) : Date.now() + validForMs,
+    ttlMs: record.ttl != null ? Number(record.ttl / 1_000_000n) : 0,
+    source,
+    ...(expired ? { expired } : {})
+  }
+}
+
+/**
+ * Resolve an IPNS name via `/routing/v1/ipns/{name}` and verify the record's signature
+ * against the name's public key instead of trusting gateway headers.
+ * Every router is asked and the highest verified sequence wins, so a lagging router cannot hand back a stale record.
+ */
+export async function resolveVerifiedIPNS(
+  ipnsName: string,
+  routerOptions?: GatewayOptions,
+  options: VerifyIPNSOptions = {}
+): Promise<VerifiedResolveResult> {
+  try {
+    // Validate the name up front so a typo is not reported as a gateway failure
+    getIPNSRoutingKey(ipnsName)
+
+    const { results, failures } = await queryAllGateways(`/routing/v1/ipns/${ipnsName}`, async (response, router) => {
+      const bytes = new Uint8Array(await response.arrayBuffer())
+
+      try {
+        return await verifyIPNSRecord(ipnsName, bytes, router, options)
+      } catch (error) {
+        throw new Error(`${router} returned an unverifiable IPNS record: ${error instanceof Error ? error.message : String(error)}`)
+      }
+    }, routerOptions ?? resolveRouterOptions(), {
+      headers: { Accept: IPNS_RECORD_CONTENT_TYPE }
+    })
+
+    if (!results.length) {
+      if (failures.every(failure => failure.status === 404)) {
+        return { success: false, notFound: true, error: `No IPNS record has been published for ${ipnsName}` }
+      }
+      throw new Error(`All routers failed: ${failures.map(failure => failure.error).join('; ')}`)
+    }
+
+    const record = results
+      .map(result => result.value)
+      .reduce((best, candidate) => candidate.sequence > best.sequence ? candidate : best)
+
+    return {
+      success: true,
+      record
+    }
+  } catch (error) {
+    console.error('❌ Verified IPNS resolve failed:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown IPNS resolve error'
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, mock, test } from 'bun:test';
+import { generateKeyPair, privateKeyToProtobuf } from '@libp2p/crypto/keys';
+import { peerIdFromPrivateKey } from '@libp2p/peer-id';
+import { base36 } from 'multiformats/bases/base36';
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string';
+import { createRemoteSigner, resolveIPNSSigner } from './ipnsSigner';
+
+const key = await generateKeyPair('Ed25519');
+const otherKey = await generateKeyPair('Ed25519');
+const privateKeyBase64 = uint8ArrayToString(privateKeyToProtobuf(key), 'base64');
+const ipnsName = peerIdFromPrivateKey(key).toCID().toString(base36);
+const otherName = peerIdFromPrivateKey(otherKey).toCID().toString(base36);
+const DATA = new TextEncoder().encode('ipns-signature:record');
+
+// A signing service that answers every request with `sign(data)`
+function mockSigner(sign: (data: Uint8Array) => Promise<Uint8Array> | Uint8Array, status = 200) {
+  const fetchMock = mock(async (_url: string | URL | Request, init?: RequestInit) => {
+    const { data } = JSON.parse(String(init?.body)) as { data: string };
+    const bytes = Uint8Array.from(atob(data), char => char.charCodeAt(0));
+    const signature = uint8ArrayToString(await sign(bytes), 'base64');
+    return new Response(JSON.stringify({ signature }), { status, statusText: status === 200 ? 'OK' : 'Forbidden' });
+  });
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+}
+
+const originalFetch = globalThis.fetch;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('resolveIPNSSigner', () => {
+  test('uses the private key when it belongs to the environment\'s name', () => {
+    const { signer, error } = resolveIPNSSigner({ ipnsPublicKey: ipnsName, ipnsPrivateKey: privateKeyBase64 });
+
+    expect(error).toBeUndefined();
+    expect(signer).toMatchObject({ kind: 'local', ipnsName });
+  });
+
+  test('accepts the name written as a peer ID', () => {
+    const peerId = peerIdFromPrivateKey(key).toString();
+
+    expect(resolveIPNSSigner({ ipnsPublicKey: peerId, ipnsPrivateKey: privateKeyBase64 }).signer?.ipnsName).toBe(ipnsName);
+  });
+
+  test('refuses a private key for another name', () => {
+    const { signer, error } = resolveIPNSSigner({ ipnsPublicKey: otherName, ipnsPrivateKey: privateKeyBase64 });
+
+    expect(signer).toBeUndefined();
+    expect(error).toBe(`The private key belongs to ${ipnsName}, not ${otherName}`);
+  });
+
+  test('falls back to the remote signer and to nothing', () => {
+    expect(resolveIPNSSigner({ ipnsPublicKey: ipnsName, ipnsSignerUrl: 'https://signer.test' }).signer).toMatchObject({ kind: 'remote', ipnsName });
+    expect(resolveIPNSSigner({ ipnsPublicKey: ipnsName })).toEqual({});
+  });
+
+  test('reports a malformed private key', () => {
+    expect(resolveIPNSSigner({ ipnsPublicKey: ipnsName, ipnsPrivateKey: 'bm90IGEga2V5' }).error).toBeString();
+  });
+});
+
+describe('createRemoteSigner', () => {
+  test('returns a signature that verifies for the name', async () => {
+    const fetchMock = mockSigner(data => key.sign(data));
+    const signer = createRemoteSigner({ url: 'https://signer.test/sign', ipnsName, authorization: 'Bearer token' });
+
+    const signature = await signer.sign(DATA);
+
+    expect(await key.publicKey.verify(DATA, signature)).toBe(true);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://signer.test/sign');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer token' });
+    expect(JSON.parse(String(init?.body))).toMatchObject({ ipnsName });
+  });
+
+  test('rejects a signature made with another key', async () => {
+    mockSigner(data => otherKey.sign(data));
+    const signer = createRemoteSigner({ url: 'https://signer.test/sign', ipnsName });
+
+    await expect(signer.sign(DATA)).rejects.toThrow(`Signer returned a signature that does not verify for ${ipnsName}`);
+  });
+
+  test('rejects a signature over different data', async () => {
+    mockSigner(() => key.sign(new TextEncoder().encode('something else')));
+    const signer = createRemoteSigner({ url: 'https://signer.test/sign', ipnsName });
+
+    await expect(signer.sign(DATA)).rejects.toThrow('does not verify');
+  });
+
+  test('reports an error response', async () => {
+    mockSigner(data => key.sign(data), 403);
+    const signer = createRemoteSigner({ url: 'https://signer.test/sign', ipnsName });
+
+    await expect(signer.sign(DATA)).rejects.toThrow('Signer responded with 403 Forbidden');
+  });
+
+  test('refuses a name that is not an Ed25519 key', () => {
+    expect(() => createRemoteSigner({ url: 'https://signer.test/sign', ipnsName: 'not-a-name' })).toThrow();
+  });
+});
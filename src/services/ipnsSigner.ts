@@ -0,0 +1,138 @@
+/**
+ * IPNS Signer Service
+ * Abstracts record signing so a key can stay in the browser, or in a signing daemon or HSM-backed service
+ */
+
+import { privateKeyFromProtobuf } from '@libp2p/crypto/keys';
+import { peerIdFromPrivateKey, peerIdFromString } from '@libp2p/peer-id';
+import { base36 } from 'multiformats/bases/base36';
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string';
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string';
+import type { createIPNSRecord } from 'ipns';
+import type { EnvironmentConfig } from './ipnsUpdater';
+
+// What `createIPNSRecord` expects
+type IPNSPrivateKey = Parameters<typeof createIPNSRecord>[0];
+type IPNSPublicKey = IPNSPrivateKey['publicKey'];
+// The part of the private key `createIPNSRecord` actually reads
+type IPNSSigningKey = Pick<IPNSPrivateKey, 'type' | 'publicKey' | 'sign'>;
+
+export interface IPNSSigner {
+  kind: 'local' | 'remote';
+  ipnsName: string;
+  publicKey: IPNSPublicKey;
+  // Signs the record's V2 signature data
+  sign: (data: Uint8Array) => Promise<Uint8Array>;
+}
+
+export interface IPNSSignerResult {
+  signer?: IPNSSigner;
+  error?: string;
+}
+
+export interface RemoteSignerOptions {
+  url: string;
+  ipnsName: string;
+  authorization?: string;
+}
+
+/**
+ * Sign with a base64 protobuf private key held in memory
+ */
+export function createLocalSigner(privateKeyBase64: string): IPNSSigner {
+  const privateKey = privateKeyFromProtobuf(uint8ArrayFromString(privateKeyBase64, 'base64'));
+  if (privateKey.type !== 'Ed25519') {
+    throw new Error('Only libp2p Ed25519 keys are supported');
+  }
+
+  return {
+    kind: 'local',
+    ipnsName: peerIdFromPrivateKey(privateKey).toCID().toString(base36),
+    publicKey: privateKey.publicKey,
+    sign: async (data) => privateKey.sign(data)
+  };
+}
+
+/**
+ * Sign by POSTing `{ ipnsName, data }` (base64) to a signing service that answers `{ signature }` (base64).
+ * The public key comes from the IPNS name itself, and every signature is verified before it is used.
+ */
+export function createRemoteSigner({ url, ipnsName, authorization }: RemoteSignerOptions): IPNSSigner {
+  const publicKey = peerIdFromString(ipnsName).publicKey;
+  if (publicKey?.type !== 'Ed25519') {
+    throw new Error(`${ipnsName} is not an Ed25519 IPNS name`);
+  }
+
+  return {
+    kind: 'remote',
+    ipnsName,
+    publicKey,
+    sign: async (data) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(authorization ? { Authorization: authorization } : {})
+        },
+        body: JSON.stringify({ ipnsName, data: uint8ArrayToString(data, 'base64') })
+      });
+      if (!response.ok) {
+        throw new Error(`Signer responded with ${response.status} ${response.statusText}`);
+      }
+
+      const { signature } = await response.json() as { signature?: unknown };
+      if (typeof signature !== 'string') {
+        throw new Error('Signer response has no signature');
+      }
+
+      const signatureBytes = uint8ArrayFromString(signature, 'base64');
+      if (!(await publicKey.verify(data, signatureBytes))) {
+        throw new Error(`Signer returned a signature that does not verify for ${ipnsName}`);
+      }
+      return signatureBytes;
+    }
+  };
+}
+
+// Base36 CIDv1 spelling of a name, so a peer ID (`12D3Koo...`) and its `k51...` form compare equal
+function normalizeIPNSName(ipnsName: string): string {
+  return peerIdFromString(ipnsName).toCID().toString(base36);
+}
+
+/**
+ * Pick the signer for an environment: its private key if present, otherwise its remote signer.
+ * Returns neither a signer nor an error when the environment cannot publish to IPNS at all.
+ */
+export function resolveIPNSSigner(environmentConfig: EnvironmentConfig): IPNSSignerResult {
+  try {
+    if (environmentConfig.ipnsPrivateKey) {
+      const signer = createLocalSigner(environmentConfig.ipnsPrivateKey);
+      // Publishing under a name nobody reads would look like a success
+      if (signer.ipnsName !== normalizeIPNSName(environmentConfig.ipnsPublicKey)) {
+        return { error: `The private key belongs to ${signer.ipnsName}, not ${environmentConfig.ipnsPublicKey}` };
+      }
+      return { signer };
+    }
+    if (environmentConfig.ipnsSignerUrl) {
+      return {
+        signer: createRemoteSigner({
+          url: environmentConfig.ipnsSignerUrl,
+          ipnsName: environmentConfig.ipnsPublicKey,
+          authorization: environmentConfig.ipnsSignerAuthorization
+        })
+      };
+    }
+    return {};
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Invalid IPNS signer' };
+  }
+}
+
+/**
+ * Adapt a signer to the private key shape `createIPNSRecord` works with
+ */
+export function toIPNSPrivateKey(signer: IPNSSigner): IPNSPrivateKey {
+  const key: IPNSSigningKey = { type: 'Ed25519', publicKey: signer.publicKey, sign: signer.sign };
+  // The remaining members (raw bytes, equals) are never touched when creating a record
+  return key as IPNSPrivateKey;
+}
@@ -8,26 +8,75 @@ import { createHeliaHTTP } from '@helia/http'
 import { CID } from 'multiformats/cid'
 import { peerIdFromPrivateKey } from '@libp2p/peer-id'
 import { base36 } from 'multiformats/bases/base36'
-import { privateKeyFromProtobuf } from '@libp2p/crypto/keys'
+import { generateKeyPair, privateKeyFromProtobuf, privateKeyToProtobuf } from '@libp2p/crypto/keys'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
 import { createIPNSRecord, marshalIPNSRecord, multihashToIPNSRoutingKey } from 'ipns'
+import type { PinningSettings } from './pinningProviders'
+import type { UploadResult } from './ipfsUploader'
+import type { GatewayOptions } from './gateways'
+import type { SchemaReference } from './configSchema'
+import type { KeyRotation } from './keyRotation'
+import { resolveVerifiedIPNS } from './ipnsResolver'
+import { resolveIPNSSigner, toIPNSPrivateKey, type IPNSSigner } from './ipnsSigner'
 
 export interface IPNSUpdateResult {
   success: boolean;
   ipnsName?: string;
+  cid?: string;
+  sequence?: bigint;
+  conflict?: IPNSConflict;
   error?: string;
 }
 
-export interface IPNSResolveResult {
-  success: boolean;
-  ipfsHash?: string;
-  ipnsName?: string;
-  error?: string;
+/**
+ * The published record a draft was fetched from
+ */
+export interface PublishBase {
+  cid: string;
+  sequence: bigint;
+}
+
+/**
+ * Details of a live record that changed since the draft was fetched
+ */
+export interface IPNSConflict {
+  expectedCid?: string;
+  liveCid: string;
+  liveSequence: bigint;
+}
+
+export interface IPNSPublishOptions {
+  // Record the draft was based on; null means the draft was started from scratch
+  base?: PublishBase | null;
+  // Publish even if the live record no longer matches the base
+  force?: boolean;
+  routerOptions?: GatewayOptions;
+  ttlMs?: number;
+  lifetimeMs?: number;
+}
+
+export interface IPNSRecordTimings {
+  ttlMs: number;
+  lifetimeMs: number;
+  republishBeforeMs: number;
 }
 
-export interface EnvironmentConfig {
+export interface EnvironmentConfig extends PinningSettings {
   ipnsPublicKey: string;
   ipnsPrivateKey?: string;
+  // Remote signing service used when no private key is available in the browser
+  ipnsSignerUrl?: string;
+  ipnsSignerAuthorization?: string;
+  ipnsTtlMs?: number;
+  ipnsLifetimeMs?: number;
+  ipnsRepublishBeforeMs?: number;
+  // Publishing requires typing the environment name
+  protected?: boolean;
+  // Overrides the shared `__env.configSchema`
+  configSchema?: SchemaReference;
+  // Keys this environment was rotated away from, oldest first
+  rotatedKeys?: KeyRotation[];
   [key: string]: unknown;
 }
 
@@ -35,8 +84,7 @@ export interface EnvironmentConfig {
 export type ConfigStructureWithEnv = ConfigStructureEnv & ConfigStructure;
 
 export interface ConfigStructureEnv {
-  __env: {
-    quickNodeApiKey: string;
+  __env: PinningSettings & {
     [key: string]: unknown;
   };
 }
@@ -50,8 +98,26 @@ export interface ConfigStructure {
 }
 
 // Constants for IPNS record creation (from ipns-publish.ts)
-const DEFAULT_TTL_MS = 60 * 1000 // 1 min
-const DEFAULT_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000 // 1 year
+export const DEFAULT_TTL_MS = 60 * 1000 // 1 min
+export const DEFAULT_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000 // 1 year
+const MAX_REPUBLISH_BEFORE_MS = 7 * 24 * 60 * 60 * 1000 // 1 week
+
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+/**
+ * Get TTL, lifetime and republish window for an environment, applying its overrides
+ */
+export function getIPNSRecordTimings(environmentConfig?: EnvironmentConfig): IPNSRecordTimings {
+  const ttlMs = positiveNumber(environmentConfig?.ipnsTtlMs) ?? DEFAULT_TTL_MS
+  const lifetimeMs = positiveNumber(environmentConfig?.ipnsLifetimeMs) ?? DEFAULT_LIFETIME_MS
+  // By default republish a week before expiry, or halfway through short lifetimes
+  const republishBeforeMs = positiveNumber(environmentConfig?.ipnsRepublishBeforeMs)
+    ?? Math.min(lifetimeMs / 2, MAX_REPUBLISH_BEFORE_MS)
+
+  return { ttlMs, lifetimeMs, republishBeforeMs }
+}
 
 /**
  * Get IPNS name from a private key (from ipns-publish.ts)
@@ -62,209 +128,104 @@ function getIPNSNameFromKeypair(privateKey: any): string {
 }
 
 /**
- * Create a simple resolution function that works with just the IPNS public key
+ * Derive the IPNS name (base36 CIDv1) from a base64 protobuf private key
  */
-export async function resolveIPNSFromPublicKey(
-  ipnsPublicKey: string
-): Promise<IPNSResolveResult> {
-  try {
-
-    // Try multiple resolution methods using the public key directly
-    // NOTE: Public key format (k51...) cannot be used with delegated routing API
-    // Only use gateway-based resolution methods
-    const resolutionMethods = [
-      // Method 1: Try fetching from gateway and check headers
-      async () => {
-        const response = await fetch(`https://ipfs.io/ipns/${ipnsPublicKey}`, {
-          method: 'HEAD'
-        });
-
-        if (response.ok) {
-          const ipfsRoots = response.headers.get('X-Ipfs-Roots');
-          if (ipfsRoots) {
-            return ipfsRoots.trim();
-          }
-        }
-        throw new Error(`Gateway header resolution failed: ${response.status}`);
-      },
-
-      // Method 2: Try Cloudflare IPFS gateway
-      async () => {
-        const response = await fetch(`https://cloudflare-ipfs.com/ipns/${ipnsPublicKey}`, {
-          method: 'HEAD'
-        });
-
-        if (response.ok) {
-          const ipfsRoots = response.headers.get('X-Ipfs-Roots');
-          if (ipfsRoots) {
-            return ipfsRoots.trim();
-          }
-        }
-        throw new Error(`Cloudflare gateway failed: ${response.status}`);
-      }
-    ];
-
-    // Try each method until one succeeds
-    for (const method of resolutionMethods) {
-      try {
-        const ipfsHash = await method();
-        return {
-          success: true,
-          ipfsHash,
-          ipnsName: ipnsPublicKey
-        };
-      } catch (error) {
-        console.warn(`⚠️ Resolution method failed:`, error);
-        continue;
-      }
-    }
-
-    return {
-      success: false,
-      ipnsName: ipnsPublicKey,
-      error: 'All resolution methods failed'
-    };
-
-  } catch (error) {
-    console.error('❌ IPNS resolve failed:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown IPNS resolve error'
-    };
+export function getIPNSNameFromPrivateKey(privateKeyBase64: string): string {
+  const keypair = privateKeyFromProtobuf(uint8ArrayFromString(privateKeyBase64, 'base64'))
+  if (keypair.type !== 'Ed25519') {
+    throw new Error('Only libp2p Ed25519 keys are supported')
   }
+
+  return getIPNSNameFromKeypair(keypair)
 }
 
 /**
- * Resolve IPNS record to get current IPFS hash using private key (generates correct IPNS name)
+ * Generate a fresh Ed25519 IPNS key in the same encoding the structure file uses
  */
-export async function resolveIPNSFromPrivateKey(
-  privateKeyBase64: string
-): Promise<IPNSResolveResult> {
-  try {
-
-    // Parse private key to get IPNS name
-    const keypair = privateKeyFromProtobuf(uint8ArrayFromString(privateKeyBase64, 'base64'))
-    if (keypair.type !== 'Ed25519') {
-      throw new Error('Only libp2p Ed25519 keys are supported')
-    }
-
-    // Get IPNS name
-    const ipnsName = getIPNSNameFromKeypair(keypair)
-
-    // Try multiple resolution methods
-    const resolutionMethods = [
-      // Method 1: Try fetching from gateway and check headers (most reliable)
-      async () => {
-        const response = await fetch(`https://ipfs.io/ipns/${ipnsName}`, {
-          method: 'HEAD' // Just get headers, don't download content
-        });
-
-        if (response.ok) {
-          const ipfsRoots = response.headers.get('X-Ipfs-Roots');
-          if (ipfsRoots) {
-            return ipfsRoots.trim();
-          }
-        }
-        throw new Error(`Gateway header resolution failed: ${response.status}`);
-      },
-
-      // Method 2: Try Cloudflare IPFS gateway
-      async () => {
-        const response = await fetch(`https://cloudflare-ipfs.com/ipns/${ipnsName}`, {
-          method: 'HEAD'
-        });
-
-        if (response.ok) {
-          const ipfsRoots = response.headers.get('X-Ipfs-Roots');
-          if (ipfsRoots) {
-            return ipfsRoots.trim();
-          }
-        }
-        throw new Error(`Cloudflare gateway failed: ${response.status}`);
-      }
-    ];
-
-    // Try each method until one succeeds
-    for (const method of resolutionMethods) {
-      try {
-        const ipfsHash = await method();
-        return {
-          success: true,
-          ipfsHash,
-          ipnsName
-        };
-      } catch (error) {
-        console.warn(`⚠️ Resolution method failed:`, error);
-        continue;
-      }
-    }
+export async function generateIPNSKeypair(): Promise<{ ipnsPublicKey: string; ipnsPrivateKey: string }> {
+  const keypair = await generateKeyPair('Ed25519')
 
-    return {
-      success: false,
-      ipnsName,
-      error: 'All resolution methods failed'
-    };
-
-  } catch (error) {
-    console.error('❌ IPNS resolve failed:', error);
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown IPNS resolve error'
-    };
+  return {
+    ipnsPublicKey: getIPNSNameFromKeypair(keypair),
+    ipnsPrivateKey: uint8ArrayToString(privateKeyToProtobuf(keypair), 'base64')
   }
 }
 
 /**
  * Update IPNS record to point to new IPFS content
+ *
+ * The live record is re-resolved first: publishing is refused when it no longer points at
+ * the draft's base CID, and the new sequence is always strictly greater than the live one.
+ * The record is signed by `signer`, so the private key may live outside the browser.
  */
 export async function updateIPNSRecord(
   ipfsHash: string,
-  privateKeyBase64: string
+  signer: IPNSSigner,
+  options: IPNSPublishOptions = {}
 ): Promise<IPNSUpdateResult> {
   let helia: any
 
   try {
+    // Parse CID (from ipns-publish.ts)
+    const cid = CID.parse(ipfsHash)
 
+    const ipnsName = signer.ipnsName
 
+    // Re-check the live record right before signing; an expired one still holds the sequence to beat
+    const live = await resolveVerifiedIPNS(ipnsName, options.routerOptions, { allowExpired: true })
+    const liveRecord = live.success ? live.record : undefined
 
-    // Create Helia instance (from ipns-publish.ts)
-    helia = await createHeliaHTTP()
-
+    if (!options.force) {
+      if (liveRecord && liveRecord.cid !== options.base?.cid) {
+        return {
+          success: false,
+          ipnsName,
+          conflict: {
+            expectedCid: options.base?.cid,
+            liveCid: liveRecord.cid,
+            liveSequence: liveRecord.sequence
+          },
+          error: `Remote changed: ${ipnsName} now points to ${liveRecord.cid}`
+        }
+      }
 
-    // Parse private key (from ipns-publish.ts)
-    const keypair = privateKeyFromProtobuf(uint8ArrayFromString(privateKeyBase64, 'base64'))
-    if (keypair.type !== 'Ed25519') {
-      throw new Error('Only libp2p Ed25519 keys are supported')
+      // Only a confirmed "no record" lets a publish go ahead without a live record to check against
+      if (!liveRecord && (options.base || !live.notFound)) {
+        throw new Error(`Could not verify the live record before publishing: ${live.error}`)
+      }
     }
 
-    // Parse CID (from ipns-publish.ts)
-    const cid = CID.parse(ipfsHash)
-
-    // Get IPNS name (from ipns-publish.ts)
-    const ipnsName = getIPNSNameFromKeypair(keypair)
-
-
-    // Use timestamp-based sequence number to ensure it's always incrementing (from ipns-publish.ts)
-    const sequenceNumber = BigInt(Date.now())
+    // Timestamp-based sequence, bumped past anything already seen in case of clock skew
+    let sequenceNumber = BigInt(Date.now())
+    for (const seen of [liveRecord?.sequence, options.base?.sequence]) {
+      if (seen != null && sequenceNumber <= seen) {
+        sequenceNumber = seen + 1n
+      }
+    }
 
-    const ttlMs = DEFAULT_TTL_MS
-    const lifetime = DEFAULT_LIFETIME_MS
+    const ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+    const lifetime = options.lifetimeMs ?? DEFAULT_LIFETIME_MS
 
     // Create IPNS record (from ipns-publish.ts)
-    const record = await createIPNSRecord(keypair, cid, sequenceNumber, lifetime, {
+    const record = await createIPNSRecord(toIPNSPrivateKey(signer), cid, sequenceNumber, lifetime, {
       ttlNs: BigInt(ttlMs) * 1_000_000n // convert to nanoseconds
     })
 
     // Marshal and publish (from ipns-publish.ts)
     const marshaledRecord = marshalIPNSRecord(record)
-    const routingKey = multihashToIPNSRoutingKey(keypair.publicKey.toMultihash())
+    const routingKey = multihashToIPNSRoutingKey(signer.publicKey.toMultihash())
+
+    // Create Helia instance (from ipns-publish.ts)
+    helia = await createHeliaHTTP()
 
     await helia.routing.put(routingKey, marshaledRecord)
 
 
     return {
       success: true,
-      ipnsName: ipnsName
+      ipnsName: ipnsName,
+      cid: cid.toString(),
+      sequence: sequenceNumber
     };
 
   } catch (error) {
@@ -285,6 +246,44 @@ export async function updateIPNSRecord(
   }
 }
 
+/**
+ * Re-sign the currently published CID with a higher sequence to extend its validity.
+ * Routers may drop a record once it expires; `lastKnown` is then re-signed instead.
+ */
+export async function republishIPNSRecord(
+  signer: IPNSSigner,
+  options: Omit<IPNSPublishOptions, 'base' | 'force'> & { lastKnown?: PublishBase | null } = {}
+): Promise<IPNSUpdateResult> {
+  try {
+    const { lastKnown, ...publishOptions } = options
+    const live = await resolveVerifiedIPNS(signer.ipnsName, options.routerOptions, { allowExpired: true })
+
+    if (live.success && live.record) {
+      return await updateIPNSRecord(live.record.cid, signer, {
+        ...publishOptions,
+        base: { cid: live.record.cid, sequence: live.record.sequence }
+      })
+    }
+
+    if (!lastKnown) {
+      throw new Error(`Could not resolve the live record to republish: ${live.error}`)
+    }
+
+    // Nothing to compare against, so skip the live check; the sequence still goes past `lastKnown`
+    return await updateIPNSRecord(lastKnown.cid, signer, {
+      ...publishOptions,
+      base: lastKnown,
+      force: true
+    })
+  } catch (error) {
+    console.error('❌ IPNS republish failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown IPNS republish error'
+    };
+  }
+}
+
 /**
  * Get IPNS private key from environment configuration
  * The private key should be included in the uploaded JSON structure
@@ -298,7 +297,7 @@ export function getIPNSPrivateKeyFromConfig(environmentConfig: EnvironmentConfig
  */
 export function isIPNSConfiguredForEnvironmentConfig(environmentConfig: EnvironmentConfig): boolean {
   const privateKey = getIPNSPrivateKeyFromConfig(environmentConfig);
-  return !!privateKey;
+  return !!privateKey || !!environmentConfig?.ipnsSignerUrl;
 }
 
 /**
@@ -309,26 +308,44 @@ export async function uploadAndUpdateIPNS(
   environmentName: string,
   environmentConfig: EnvironmentConfig,
 
-  quickNodeApiKey: string,
-  uploadToIPFS: (config: Record<string, unknown>, env: string, quickNodeApiKey?: string) => Promise<{ success: boolean; ipfsHash?: string; error?: string }>
-): Promise<{ ipfsResult: { success: boolean; ipfsHash?: string; error?: string }; ipnsResult?: IPNSUpdateResult }> {
+  pinningSettings: PinningSettings,
+  uploadToIPFS: (config: Record<string, unknown>, env: string, pinningSettings: PinningSettings) => Promise<UploadResult>,
+  publishOptions?: IPNSPublishOptions
+): Promise<{ ipfsResult: UploadResult; ipnsResult?: IPNSUpdateResult }> {
 
 
 
   // First upload to IPFS
-  const ipfsResult = await uploadToIPFS(config, environmentName, quickNodeApiKey);
+  const ipfsResult = await uploadToIPFS(config, environmentName, pinningSettings);
 
   if (!ipfsResult.success || !ipfsResult.ipfsHash) {
     return { ipfsResult };
   }
 
-  // Then update IPNS if configured in the environment config
-  const privateKey = getIPNSPrivateKeyFromConfig(environmentConfig);
-  if (!privateKey) {
+  // Never point IPNS at content that is not what we uploaded
+  if (ipfsResult.cidMatches === false) {
+    return {
+      ipfsResult,
+      ipnsResult: {
+        success: false,
+        error: `CID mismatch: provider returned ${ipfsResult.ipfsHash} but the uploaded bytes hash to ${ipfsResult.expectedIpfsHash}`
+      }
+    };
+  }
+
+  // Then update IPNS if the environment has a key or signer
+  const { signer, error } = resolveIPNSSigner(environmentConfig);
+  if (error) {
+    return { ipfsResult, ipnsResult: { success: false, error } };
+  }
+  if (!signer) {
     return { ipfsResult };
   }
 
-  const ipnsResult = await updateIPNSRecord(ipfsResult.ipfsHash, privateKey);
+  const ipnsResult = await updateIPNSRecord(ipfsResult.ipfsHash, signer, {
+    ...getIPNSRecordTimings(environmentConfig),
+    ...publishOptions
+  });
 
   return { ipfsResult, ipnsResult };
 }
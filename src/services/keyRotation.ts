@@ -0,0 +1,144 @@
+/**
+ * Key Rotation Service
+ * Moves an environment to a freshly generated IPNS key and leaves a migration marker under the old name
+ */
+
+import { uploadConfigToIPFS } from './ipfsUploader';
+import {
+  generateIPNSKeypair,
+  isIPNSConfiguredForEnvironmentConfig,
+  uploadAndUpdateIPNS,
+  type ConfigStructure,
+  type EnvironmentConfig,
+  type PublishBase
+} from './ipnsUpdater';
+import type { GatewayOptions } from './gateways';
+import type { PinningSettings } from './pinningProviders';
+
+// Top-level key added to the content left under a rotated name
+export const MIGRATION_MARKER_KEY = '__movedTo';
+
+// The old name should keep resolving to the marker long after consumers have moved
+export const ROTATION_RECORD_LIFETIME_MS = 5 * 365 * 24 * 60 * 60 * 1000; // 5 years
+
+/**
+ * A retired key, kept in the structure file under the environment that replaced it
+ */
+export interface KeyRotation {
+  ipnsPublicKey: string;
+  movedTo: string;
+  rotatedAt: number;
+  reason?: string;
+}
+
+export interface MigrationMarker {
+  ipnsName: string;
+  rotatedAt: string;
+}
+
+export interface KeyRotationResult {
+  success: boolean;
+  // Set whenever content was published under the new key, even if the old name could not be updated
+  keypair?: { ipnsPublicKey: string; ipnsPrivateKey: string };
+  base?: PublishBase;
+  rotation?: KeyRotation;
+  markerBase?: PublishBase;
+  warning?: string;
+  error?: string;
+}
+
+export interface KeyRotationOptions {
+  // Live record of the old name, so the marker doesn't overwrite a change made elsewhere
+  oldBase: PublishBase | null;
+  routerOptions?: GatewayOptions;
+  reason?: string;
+}
+
+/**
+ * Publish `config` under a new key, then point the old name at the same content plus a
+ * `__movedTo` marker with a long-lived record, so existing consumers keep working and can
+ * discover the new name
+ */
+export async function rotateEnvironmentKey(
+  config: Record<string, unknown>,
+  environmentName: string,
+  environmentConfig: EnvironmentConfig,
+  pinningSettings: PinningSettings,
+  options: KeyRotationOptions
+): Promise<KeyRotationResult> {
+  if (!isIPNSConfiguredForEnvironmentConfig(environmentConfig)) {
+    return { success: false, error: 'The current private key or signer is needed to leave a migration marker under the old name' };
+  }
+
+  try {
+    const keypair = await generateIPNSKeypair();
+    const published = await uploadAndUpdateIPNS(
+      config,
+      environmentName,
+      { ...environmentConfig, ...keypair },
+      pinningSettings,
+      uploadConfigToIPFS,
+      { base: null, routerOptions: options.routerOptions }
+    );
+    if (!published.ipfsResult.success || !published.ipnsResult?.success || published.ipnsResult.sequence == null) {
+      return {
+        success: false,
+        error: `Publishing under the new key failed: ${published.ipfsResult.error ?? published.ipnsResult?.error ?? 'Unknown error'}`
+      };
+    }
+
+    const base: PublishBase = { cid: published.ipfsResult.ipfsHash!, sequence: published.ipnsResult.sequence };
+    const rotation: KeyRotation = {
+      ipnsPublicKey: environmentConfig.ipnsPublicKey,
+      movedTo: keypair.ipnsPublicKey,
+      rotatedAt: Date.now(),
+      ...(options.reason ? { reason: options.reason } : {})
+    };
+
+    const marker: MigrationMarker = { ipnsName: keypair.ipnsPublicKey, rotatedAt: new Date(rotation.rotatedAt).toISOString() };
+    const moved = await uploadAndUpdateIPNS(
+      { ...config, [MIGRATION_MARKER_KEY]: marker },
+      environmentName,
+      environmentConfig,
+      pinningSettings,
+      uploadConfigToIPFS,
+      { base: options.oldBase, routerOptions: options.routerOptions, lifetimeMs: ROTATION_RECORD_LIFETIME_MS }
+    );
+
+    if (!moved.ipfsResult.success || !moved.ipnsResult?.success || moved.ipnsResult.sequence == null) {
+      const cause = moved.ipnsResult?.conflict
+        ? `its live record changed to ${moved.ipnsResult.conflict.liveCid}`
+        : moved.ipfsResult.error ?? moved.ipnsResult?.error ?? 'Unknown error';
+      return {
+        success: true,
+        keypair,
+        base,
+        rotation,
+        warning: `The old name still points at the previous content: ${cause}`
+      };
+    }
+
+    return {
+      success: true,
+      keypair,
+      base,
+      rotation,
+      markerBase: { cid: moved.ipfsResult.ipfsHash!, sequence: moved.ipnsResult.sequence }
+    };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+}
+
+/**
+ * Every retired key recorded in a structure, by old IPNS name
+ */
+export function getRotatedKeys(structure: ConfigStructure): Record<string, KeyRotation> {
+  const rotated: Record<string, KeyRotation> = {};
+  for (const environment of Object.values(structure)) {
+    for (const rotation of (environment as EnvironmentConfig).rotatedKeys ?? []) {
+      rotated[rotation.ipnsPublicKey] = rotation;
+    }
+  }
+  return rotated;
+}
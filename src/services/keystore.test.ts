@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import type { ConfigStructure } from './ipnsUpdater';
+
+// In-memory stand-in for the IndexedDB object stores
+const stores = new Map<string, Map<string, unknown>>();
+
+mock.module('./storage', () => ({
+  isStorageAvailable: () => true,
+  withStore: async (storeName: string, _mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest) => {
+    const records = stores.get(storeName) ?? new Map<string, unknown>();
+    stores.set(storeName, records);
+    const store = {
+      get: (id: string) => ({ result: records.get(id) }),
+      put: (record: { id: string }) => ({ result: records.set(record.id, structuredClone(record)) && record.id }),
+      delete: (id: string) => ({ result: records.delete(id) && undefined })
+    };
+    return run(store as unknown as IDBObjectStore).result;
+  }
+}));
+
+const {
+  SHARED_SCOPE,
+  applySecrets,
+  createKeystore,
+  deleteKeystore,
+  extractSecrets,
+  getUnlockedSecrets,
+  hasKeystore,
+  isKeystoreUnlocked,
+  lockKeystore,
+  storeSecrets,
+  unlockKeystore
+} = await import('./keystore');
+
+const PRIVATE_KEY = 'CAESQBase64PrivateKey';
+const SECRETS = {
+  [SHARED_SCOPE]: { pinataJWT: 'jwt-secret' },
+  k51prod: { ipnsPrivateKey: PRIVATE_KEY }
+};
+
+beforeEach(async () => {
+  stores.clear();
+  await deleteKeystore();
+});
+
+describe('keystore encryption', () => {
+  test('round-trips secrets through the passphrase', async () => {
+    await createKeystore('correct horse', SECRETS);
+    lockKeystore();
+    expect(isKeystoreUnlocked()).toBe(false);
+
+    expect(await unlockKeystore('correct horse')).toEqual(SECRETS);
+    expect(getUnlockedSecrets()).toEqual(SECRETS);
+  });
+
+  test('stores only ciphertext', async () => {
+    await createKeystore('correct horse', SECRETS);
+
+    const vault = stores.get('keystore')?.get('vault') as { ciphertext: ArrayBuffer };
+    const stored = new TextDecoder().decode(vault.ciphertext);
+    expect(stored).not.toContain(PRIVATE_KEY);
+    expect(stored).not.toContain('jwt-secret');
+  });
+
+  test('rejects a wrong passphrase and stays locked', async () => {
+    await createKeystore('correct horse', SECRETS);
+    lockKeystore();
+
+    await expect(unlockKeystore('battery staple')).rejects.toThrow('Wrong passphrase');
+    expect(isKeystoreUnlocked()).toBe(false);
+    expect(getUnlockedSecrets()).toBeNull();
+  });
+
+  test('requires a passphrase and an existing keystore', async () => {
+    await expect(createKeystore('', SECRETS)).rejects.toThrow('A passphrase is required');
+    await expect(unlockKeystore('correct horse')).rejects.toThrow('No keystore has been created in this browser');
+    expect(await hasKeystore()).toBe(false);
+  });
+
+  test('merges stored secrets and re-encrypts them', async () => {
+    await createKeystore('correct horse', SECRETS);
+    await storeSecrets({ k51prod: { pinataJWT: 'prod-jwt' }, k51dev: { ipnsPrivateKey: 'dev-key' } });
+    lockKeystore();
+
+    expect(await unlockKeystore('correct horse')).toEqual({
+      [SHARED_SCOPE]: { pinataJWT: 'jwt-secret' },
+      k51prod: { ipnsPrivateKey: PRIVATE_KEY, pinataJWT: 'prod-jwt' },
+      k51dev: { ipnsPrivateKey: 'dev-key' }
+    });
+  });
+
+  test('refuses to store secrets while locked', async () => {
+    await createKeystore('correct horse', SECRETS);
+    lockKeystore();
+
+    await expect(storeSecrets({ k51dev: { ipnsPrivateKey: 'dev-key' } })).rejects.toThrow('Unlock the keystore first');
+  });
+
+  test('deleting the keystore locks it and removes the vault', async () => {
+    await createKeystore('correct horse', SECRETS);
+    await deleteKeystore();
+
+    expect(isKeystoreUnlocked()).toBe(false);
+    expect(await hasKeystore()).toBe(false);
+  });
+});
+
+describe('extractSecrets / applySecrets', () => {
+  const structure: ConfigStructure = {
+    production: { ipnsPublicKey: 'k51prod', ipnsPrivateKey: PRIVATE_KEY, protected: true },
+    development: { ipnsPublicKey: 'k51dev', ipnsSignerUrl: 'https://signer.test' }
+  };
+  const configEnvs = { pinningProvider: 'pinata' as const, pinataJWT: 'jwt-secret' };
+
+  test('splits secrets out of a structure file by scope', () => {
+    const { secrets, publicEnvs, publicStructure } = extractSecrets(configEnvs, structure);
+
+    expect(secrets).toEqual(SECRETS);
+    expect(publicEnvs).toEqual({ pinningProvider: 'pinata' });
+    expect(publicStructure).toEqual({
+      production: { ipnsPublicKey: 'k51prod', protected: true },
+      development: { ipnsPublicKey: 'k51dev', ipnsSignerUrl: 'https://signer.test' }
+    });
+    expect(JSON.stringify(publicStructure)).not.toContain(PRIVATE_KEY);
+  });
+
+  test('puts each secret back only into the environment with its public key', () => {
+    const { secrets, publicEnvs, publicStructure } = extractSecrets(configEnvs, structure);
+
+    expect(applySecrets(publicEnvs, publicStructure, secrets)).toEqual({ configEnvs, structure });
+    expect(applySecrets(publicEnvs, publicStructure, secrets).structure.development).not.toHaveProperty('ipnsPrivateKey');
+  });
+
+  test('keeps values from the file over stored ones', () => {
+    const fileStructure: ConfigStructure = { production: { ipnsPublicKey: 'k51prod', ipnsPrivateKey: 'from-file' } };
+
+    const { structure: merged } = applySecrets(undefined, fileStructure, SECRETS);
+
+    expect(merged.production.ipnsPrivateKey).toBe('from-file');
+  });
+
+  test('leaves the structure alone while the keystore is locked', () => {
+    const { publicEnvs, publicStructure } = extractSecrets(configEnvs, structure);
+
+    expect(applySecrets(publicEnvs, publicStructure, null)).toEqual({ configEnvs: publicEnvs, structure: publicStructure });
+  });
+
+  test('supplies shared secrets when the file has no __env section', () => {
+    expect(applySecrets(undefined, {}, SECRETS).configEnvs).toEqual({ pinataJWT: 'jwt-secret' });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Keystore Service
+ * Keeps IPNS private keys and provider credentials encrypted at rest in IndexedDB
+ * (PBKDF2-derived AES-GCM key), so structure files only need to carry public keys
+ */
+
+import { isStorageAvailable, withStore } from './storage';
+import type { ConfigStructure, ConfigStructureEnv, EnvironmentConfig } from './ipnsUpdater';
+
+// Fields that never need to leave this browser in plaintext
+export const SECRET_FIELDS = ['ipnsPrivateKey', 'quickNodeApiKey', 'pinataJWT', 'web3StorageToken', 'kuboAuthorization', 'ipnsSignerAuthorization'] as const;
+
+export type SecretField = typeof SECRET_FIELDS[number];
+
+// Secrets grouped by scope: SHARED_SCOPE for `__env`, otherwise the environment's IPNS public key
+export type KeystoreSecrets = Record<string, Partial<Record<SecretField, string>>>;
+
+export const SHARED_SCOPE = '__env';
+
+export const DEFAULT_AUTO_LOCK_MS = 5 * 60 * 1000;
+
+interface KeystoreRecord {
+  id: string;
+  salt: Uint8Array;
+  iv: Uint8Array;
+  iterations: number;
+  ciphertext: ArrayBuffer;
+  updatedAt: number;
+}
+
+const KEYSTORE_STORE = 'keystore';
+const VAULT_ID = 'vault';
+const PBKDF2_ITERATIONS = 310_000;
+
+// The derived key is only kept in memory while unlocked
+let session: { key: CryptoKey; salt: Uint8Array; iterations: number; secrets: KeystoreSecrets } | null = null;
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function readVault(): Promise<KeystoreRecord | undefined> {
+  if (!isStorageAvailable()) return undefined;
+  return withStore<KeystoreRecord | undefined>(KEYSTORE_STORE, 'readonly', store => store.get(VAULT_ID));
+}
+
+async function writeVault(key: CryptoKey, salt: Uint8Array, iterations: number, secrets: KeystoreSecrets): Promise<void> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: iv as BufferSource },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+
+  const record: KeystoreRecord = { id: VAULT_ID, salt, iv, iterations, ciphertext, updatedAt: Date.now() };
+  await withStore(KEYSTORE_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function hasKeystore(): Promise<boolean> {
+  return !!(await readVault());
+}
+
+export function isKeystoreUnlocked(): boolean {
+  return session !== null;
+}
+
+/**
+ * Create (or replace) the keystore with a new passphrase and leave it unlocked
+ */
+export async function createKeystore(passphrase: string, secrets: KeystoreSecrets): Promise<KeystoreSecrets> {
+  if (!passphrase) throw new Error('A passphrase is required');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  await writeVault(key, salt, PBKDF2_ITERATIONS, secrets);
+
+  session = { key, salt, iterations: PBKDF2_ITERATIONS, secrets };
+  return secrets;
+}
+
+/**
+ * Decrypt the keystore; a wrong passphrase fails AES-GCM authentication
+ */
+export async function unlockKeystore(passphrase: string): Promise<KeystoreSecrets> {
+  const vault = await readVault();
+  if (!vault) throw new Error('No keystore has been created in this browser');
+
+  const key = await deriveKey(passphrase, vault.salt, vault.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: vault.iv as BufferSource }, key, vault.ciphertext);
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  const secrets = JSON.parse(new TextDecoder().decode(plaintext)) as KeystoreSecrets;
+  session = { key, salt: vault.salt, iterations: vault.iterations, secrets };
+  return secrets;
+}
+
+/**
+ * Secrets of the current session, readable right after an unlock before any UI state catches up
+ */
+export function getUnlockedSecrets(): KeystoreSecrets | null {
+  return session?.secrets ?? null;
+}
+
+export function lockKeystore(): void {
+  session = null;
+}
+
+/**
+ * Merge secrets into the unlocked keystore and re-encrypt it
+ */
+export async function storeSecrets(secrets: KeystoreSecrets): Promise<KeystoreSecrets> {
+  if (!session) throw new Error('Unlock the keystore first');
+
+  const merged: KeystoreSecrets = { ...session.secrets };
+  for (const [scope, values] of Object.entries(secrets)) {
+    merged[scope] = { ...merged[scope], ...values };
+  }
+
+  await writeVault(session.key, session.salt, session.iterations, merged);
+  session = { ...session, secrets: merged };
+  return merged;
+}
+
+export async function deleteKeystore(): Promise<void> {
+  session = null;
+  if (!isStorageAvailable()) return;
+  await withStore(KEYSTORE_STORE, 'readwrite', store => store.delete(VAULT_ID));
+}
+
+function pickSecrets(source: Record<string, unknown>): Partial<Record<SecretField, string>> {
+  const picked: Partial<Record<SecretField, string>> = {};
+  for (const field of SECRET_FIELDS) {
+    if (typeof source[field] === 'string' && source[field]) picked[field] = source[field] as string;
+  }
+  return picked;
+}
+
+function omitSecrets<T extends Record<string, unknown>>(source: T): T {
+  const copy = { ...source };
+  for (const field of SECRET_FIELDS) delete copy[field];
+  return copy;
+}
+
+/**
+ * Split a loaded structure file into its secrets and a copy safe to share
+ */
+export function extractSecrets(configEnvs: ConfigStructureEnv['__env'] | undefined, structure: ConfigStructure): {
+  secrets: KeystoreSecrets;
+  publicEnvs: ConfigStructureEnv['__env'] | undefined;
+  publicStructure: ConfigStructure;
+} {
+  const secrets: KeystoreSecrets = {};
+  const shared = configEnvs ? pickSecrets(configEnvs) : {};
+  if (Object.keys(shared).length) secrets[SHARED_SCOPE] = shared;
+
+  const publicStructure: ConfigStructure = {};
+  for (const [name, environment] of Object.entries(structure)) {
+    const picked = pickSecrets(environment);
+    const ipnsPublicKey = (environment as EnvironmentConfig).ipnsPublicKey;
+    if (Object.keys(picked).length && ipnsPublicKey) secrets[ipnsPublicKey] = picked;
+    publicStructure[name] = omitSecrets(environment);
+  }
+
+  return { secrets, publicEnvs: configEnvs && omitSecrets(configEnvs), publicStructure };
+}
+
+/**
+ * Fill in secrets the structure file doesn't carry itself; values in the file win
+ */
+export function applySecrets(
+  configEnvs: ConfigStructureEnv['__env'] | undefined,
+  structure: ConfigStructure,
+  secrets: KeystoreSecrets | null
+): { configEnvs: ConfigStructureEnv['__env'] | undefined; structure: ConfigStructure } {
+  if (!secrets) return { configEnvs, structure };
+
+  const merged: ConfigStructure = {};
+  for (const [name, environment] of Object.entries(structure)) {
+    merged[name] = { ...secrets[(environment as EnvironmentConfig).ipnsPublicKey], ...environment };
+  }
+
+  return {
+    configEnvs: configEnvs ? { ...secrets[SHARED_SCOPE], ...configEnvs } : secrets[SHARED_SCOPE],
+    structure: merged
+  };
+}
+
+export function hasSecrets(secrets: KeystoreSecrets): boolean {
+  return Object.values(secrets).some(values => Object.keys(values).length > 0);
+}
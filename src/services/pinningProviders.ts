@@ -0,0 +1,228 @@
+/**
+ * Pinning Providers
+ * Pluggable backends that pin configuration files to IPFS
+ */
+
+import { DEFAULT_FILE_CID_OPTIONS, type FileCIDOptions } from './ipfsBlocks';
+
+export type PinningProviderName = 'quicknode' | 'pinata' | 'web3storage' | 'kubo';
+
+export interface PinningSettings {
+  pinningProvider?: PinningProviderName;
+  quickNodeApiKey?: string;
+  pinataJWT?: string;
+  web3StorageToken?: string;
+  web3StorageApiUrl?: string;
+  kuboApiUrl?: string;
+  kuboAuthorization?: string;
+  cidVersion?: 0 | 1;
+  rawLeaves?: boolean;
+  chunkSize?: number;
+}
+
+export interface PinningProvider {
+  name: PinningProviderName;
+  label: string;
+  isConfigured: (settings: PinningSettings) => boolean;
+  missingConfigMessage: string;
+  // How the provider chunks and encodes files, used to predict the resulting CID
+  cidOptions: Partial<FileCIDOptions>;
+  upload: (file: Blob, fileName: string, settings: PinningSettings) => Promise<string>;
+}
+
+const PINNING_SETTING_KEYS: (keyof PinningSettings)[] = [
+  'pinningProvider',
+  'quickNodeApiKey',
+  'pinataJWT',
+  'web3StorageToken',
+  'web3StorageApiUrl',
+  'kuboApiUrl',
+  'kuboAuthorization',
+  'cidVersion',
+  'rawLeaves',
+  'chunkSize'
+];
+
+export const DEFAULT_PINNING_PROVIDER: PinningProviderName = 'quicknode';
+
+/**
+ * Throw a descriptive error for a failed provider response
+ */
+async function assertOk(response: Response, label: string): Promise<void> {
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`${label} upload failed: ${response.status} - ${errorText}`);
+  }
+}
+
+const quickNodeProvider: PinningProvider = {
+  name: 'quicknode',
+  label: 'QuickNode',
+  cidOptions: { cidVersion: 1, rawLeaves: true },
+  isConfigured: (settings) => !!settings.quickNodeApiKey,
+  missingConfigMessage: 'Add quickNodeApiKey to the __env section in config',
+  upload: async (file, fileName, settings) => {
+    const formData = new FormData();
+    formData.append('Body', file, fileName);
+    formData.append('Key', fileName);
+    formData.append('ContentType', 'application/json');
+
+    const response = await fetch('https://api.quicknode.com/ipfs/rest/v1/s3/put-object', {
+      method: 'POST',
+      headers: {
+        'x-api-key': settings.quickNodeApiKey as string
+      },
+      body: formData
+    });
+    await assertOk(response, 'QuickNode');
+
+    const result = await response.json();
+    return result.pin?.cid || result.cid || result.hash;
+  }
+};
+
+const pinataProvider: PinningProvider = {
+  name: 'pinata',
+  label: 'Pinata',
+  cidOptions: { cidVersion: 1, rawLeaves: true },
+  isConfigured: (settings) => !!settings.pinataJWT,
+  missingConfigMessage: 'Add pinataJWT to the __env section in config',
+  upload: async (file, fileName, settings) => {
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+    formData.append('pinataMetadata', JSON.stringify({ name: fileName }));
+    formData.append('pinataOptions', JSON.stringify({ cidVersion: 1 }));
+
+    const response = await fetch('https://api.pinata.cloud/pinning/pinFileToIPFS', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${settings.pinataJWT}`
+      },
+      body: formData
+    });
+    await assertOk(response, 'Pinata');
+
+    const result = await response.json();
+    return result.IpfsHash;
+  }
+};
+
+const web3StorageProvider: PinningProvider = {
+  name: 'web3storage',
+  label: 'web3.storage',
+  cidOptions: { cidVersion: 1, rawLeaves: true, chunkSize: 1024 * 1024 },
+  // The hosted api.web3.storage has shut down, so the upload endpoint must be given explicitly
+  isConfigured: (settings) => !!settings.web3StorageToken && !!settings.web3StorageApiUrl,
+  missingConfigMessage: 'Add web3StorageToken and web3StorageApiUrl to the __env section in config',
+  upload: async (file, fileName, settings) => {
+    const apiUrl = (settings.web3StorageApiUrl as string).replace(/\/+$/, '');
+
+    const response = await fetch(`${apiUrl}/upload`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${settings.web3StorageToken}`,
+        'X-Name': encodeURIComponent(fileName)
+      },
+      body: file
+    });
+    await assertOk(response, 'web3.storage');
+
+    const result = await response.json();
+    return result.cid;
+  }
+};
+
+const kuboProvider: PinningProvider = {
+  name: 'kubo',
+  label: 'Kubo RPC',
+  cidOptions: { cidVersion: 1, rawLeaves: true },
+  isConfigured: (settings) => !!settings.kuboApiUrl,
+  missingConfigMessage: 'Add kuboApiUrl (e.g. http://127.0.0.1:5001) to the __env section in config',
+  upload: async (file, fileName, settings) => {
+    const apiUrl = (settings.kuboApiUrl as string).replace(/\/+$/, '');
+
+    const formData = new FormData();
+    formData.append('file', file, fileName);
+
+    const headers: Record<string, string> = {};
+    if (settings.kuboAuthorization) {
+      headers.Authorization = settings.kuboAuthorization;
+    }
+
+    // Import with the same layout computeConfigCID predicts, so the returned CID can be checked
+    const { cidVersion, rawLeaves, chunkSize } = { ...DEFAULT_FILE_CID_OPTIONS, ...getExpectedCIDOptions(settings) };
+    const params = new URLSearchParams({
+      pin: 'true',
+      'cid-version': String(cidVersion),
+      'raw-leaves': String(rawLeaves),
+      chunker: `size-${chunkSize}`
+    });
+
+    const response = await fetch(`${apiUrl}/api/v0/add?${params}`, {
+      method: 'POST',
+      headers,
+      body: formData
+    });
+    await assertOk(response, 'Kubo');
+
+    const result = await response.json();
+    return result.Hash;
+  }
+};
+
+export const PINNING_PROVIDERS: Record<PinningProviderName, PinningProvider> = {
+  quicknode: quickNodeProvider,
+  pinata: pinataProvider,
+  web3storage: web3StorageProvider,
+  kubo: kuboProvider
+};
+
+/**
+ * Merge global __env pinning settings with per-environment overrides
+ */
+export function resolvePinningSettings(
+  globalSettings?: Record<string, unknown>,
+  environmentSettings?: Record<string, unknown>
+): PinningSettings {
+  const settings: Record<string, unknown> = {};
+
+  for (const key of PINNING_SETTING_KEYS) {
+    const value = environmentSettings?.[key] ?? globalSettings?.[key];
+    if ((typeof value === 'string' && value) || typeof value === 'number' || typeof value === 'boolean') {
+      settings[key] = value;
+    }
+  }
+
+  return settings as PinningSettings;
+}
+
+/**
+ * Get the provider selected by the settings, falling back to QuickNode
+ */
+export function getPinningProvider(settings: PinningSettings): PinningProvider {
+  const name = settings.pinningProvider ?? DEFAULT_PINNING_PROVIDER;
+  const provider = PINNING_PROVIDERS[name];
+
+  if (!provider) {
+    throw new Error(`Unknown pinning provider "${name}". Expected one of: ${Object.keys(PINNING_PROVIDERS).join(', ')}`);
+  }
+
+  return provider;
+}
+
+/**
+ * Get the CID layout the selected provider will produce, applying any overrides from settings
+ */
+export function getExpectedCIDOptions(settings: PinningSettings): Partial<FileCIDOptions> {
+  const options: Partial<FileCIDOptions> = { ...getPinningProvider(settings).cidOptions };
+
+  if (settings.cidVersion === 0 || settings.cidVersion === 1) {
+    options.cidVersion = settings.cidVersion;
+    // CIDv0 cannot address raw blocks
+    if (settings.cidVersion === 0) options.rawLeaves = false;
+  }
+  if (typeof settings.rawLeaves === 'boolean') options.rawLeaves = settings.rawLeaves;
+  if (typeof settings.chunkSize === 'number' && settings.chunkSize > 0) options.chunkSize = settings.chunkSize;
+
+  return options;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, test } from 'bun:test';
+import { createPublishProposal, parseProposal, serializeProposal, verifyProposalContent, type PublishProposal } from './publishProposal';
+
+const proposal = await createPublishProposal({
+  environmentName: 'production',
+  ipnsName: 'k51prod',
+  base: { cid: 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH', sequence: 4n },
+  baseline: { apiUrl: 'https://old' },
+  config: { apiUrl: 'https://new' },
+  pinningSettings: {},
+  note: 'Point at the new API'
+});
+
+// Re-sign a hand-edited proposal, so only the field checks stand between it and a reviewer
+async function withValidDigest(fields: Record<string, unknown>): Promise<string> {
+  const { digest: _, ...unsigned } = { ...proposal, ...fields };
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(unsigned)));
+  const digest = Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+  return JSON.stringify({ ...unsigned, digest });
+}
+
+describe('parseProposal', () => {
+  test('round-trips a serialized proposal', async () => {
+    const parsed = await parseProposal(serializeProposal(proposal));
+
+    expect(parsed.proposal).toEqual(proposal);
+    expect(proposal.base).toEqual({ cid: 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH', sequence: '4' });
+    expect(proposal.changes).toEqual([{ type: 'modified', path: ['apiUrl'], before: 'https://old', after: 'https://new' }]);
+  });
+
+  test('rejects a proposal edited after it was created', async () => {
+    const tampered = JSON.stringify({ ...proposal, config: { apiUrl: 'https://evil' } });
+
+    expect(await parseProposal(tampered)).toEqual({ error: 'The proposal was modified after it was created (digest mismatch)' });
+  });
+
+  test('accepts a proposal for an environment that was never published', async () => {
+    expect((await parseProposal(await withValidDigest({ base: null }))).proposal?.base).toBeNull();
+  });
+
+  test.each<[string, unknown]>([
+    ['a missing base', undefined],
+    ['a string base', 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH'],
+    ['an array base', []],
+    ['a non-numeric sequence', { cid: 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH', sequence: 'x' }],
+    ['a numeric sequence', { cid: 'QmbFMke1KXqnYyBBWxB74N4c5SBnJMVAiMNRcGu6x1AwQH', sequence: 4 }],
+    ['a missing CID', { sequence: '4' }]
+  ])('rejects %s', async (_, base) => {
+    expect((await parseProposal(await withValidDigest({ base }))).error).toBe('The proposal base must be null or a CID with a decimal sequence');
+  });
+
+  test('rejects changes that are not a list', async () => {
+    expect((await parseProposal(await withValidDigest({ changes: {} }))).error).toBe('The proposal is missing required fields');
+  });
+
+  test.each<[string, string]>([
+    ['not JSON', '{'],
+    ['another JSON document', '{"name":"config"}'],
+    ['a future version', JSON.stringify({ ...proposal, version: 2 })]
+  ])('rejects %s', async (_, text) => {
+    expect((await parseProposal(text)).error).toBeString();
+  });
+});
+
+describe('verifyProposalContent', () => {
+  test('checks the config against the announced CID', async () => {
+    expect((await verifyProposalContent(proposal, {})).matches).toBe(true);
+
+    const swapped: PublishProposal = { ...proposal, config: { apiUrl: 'https://evil' } };
+    expect((await verifyProposalContent(swapped, {})).matches).toBe(false);
+  });
+});
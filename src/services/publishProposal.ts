@@ -0,0 +1,132 @@
+/**
+ * Publish Proposal Service
+ * Lets editors without IPNS keys hand a reviewed change to a key holder as a file or pasted blob
+ */
+
+import { computeConfigCID } from './ipfsUploader';
+import { diffConfigs, type DiffChange } from '@/lib/configDiff';
+import type { PinningSettings } from './pinningProviders';
+import type { PublishBase } from './ipnsUpdater';
+
+export const PROPOSAL_FORMAT = 'variables-publish-proposal';
+export const PROPOSAL_VERSION = 1;
+
+export interface PublishProposal {
+  format: typeof PROPOSAL_FORMAT;
+  version: typeof PROPOSAL_VERSION;
+  id: string;
+  environmentName: string;
+  ipnsName: string;
+  // The published record the editor's draft was based on; sequence as a decimal string
+  base: { cid: string; sequence: string } | null;
+  contentCid: string;
+  config: Record<string, unknown>;
+  // Changes against the base as the editor saw them
+  changes: DiffChange[];
+  note?: string;
+  author?: string;
+  createdAt: string;
+  // SHA-256 over everything above; catches truncated or hand-edited blobs, it does not identify the author
+  digest: string;
+}
+
+export interface ProposalParseResult {
+  proposal?: PublishProposal;
+  error?: string;
+}
+
+async function computeDigest(proposal: Omit<PublishProposal, 'digest'>): Promise<string> {
+  const hash = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(proposal)));
+  return Array.from(new Uint8Array(hash), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Build a proposal for publishing `config` to an environment
+ */
+export async function createPublishProposal(options: {
+  environmentName: string;
+  ipnsName: string;
+  base: PublishBase | null;
+  baseline?: Record<string, unknown>;
+  config: Record<string, unknown>;
+  pinningSettings: PinningSettings;
+  note?: string;
+  author?: string;
+}): Promise<PublishProposal> {
+  const unsigned: Omit<PublishProposal, 'digest'> = {
+    format: PROPOSAL_FORMAT,
+    version: PROPOSAL_VERSION,
+    id: crypto.randomUUID(),
+    environmentName: options.environmentName,
+    ipnsName: options.ipnsName,
+    base: options.base ? { cid: options.base.cid, sequence: options.base.sequence.toString() } : null,
+    contentCid: await computeConfigCID(options.config, options.pinningSettings),
+    config: options.config,
+    changes: diffConfigs(options.baseline ?? {}, options.config),
+    ...(options.note ? { note: options.note } : {}),
+    ...(options.author ? { author: options.author } : {}),
+    createdAt: new Date().toISOString()
+  };
+
+  return { ...unsigned, digest: await computeDigest(unsigned) };
+}
+
+export function serializeProposal(proposal: PublishProposal): string {
+  return JSON.stringify(proposal, null, 2);
+}
+
+function isValidBase(base: unknown): base is PublishProposal['base'] {
+  if (base === null) return true;
+  if (!base || typeof base !== 'object' || Array.isArray(base)) return false;
+
+  const { cid, sequence } = base as Record<string, unknown>;
+  return typeof cid === 'string' && !!cid && typeof sequence === 'string' && /^\d+$/.test(sequence);
+}
+
+/**
+ * Parse a proposal file or pasted blob and check its digest
+ */
+export async function parseProposal(text: string): Promise<ProposalParseResult> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { error: 'Not valid JSON' };
+  }
+
+  const candidate = parsed as Partial<PublishProposal> | null;
+  if (!candidate || typeof candidate !== 'object' || candidate.format !== PROPOSAL_FORMAT) {
+    return { error: 'Not a publish proposal' };
+  }
+  if (candidate.version !== PROPOSAL_VERSION) {
+    return { error: `Unsupported proposal version ${String(candidate.version)}` };
+  }
+  if (
+    typeof candidate.environmentName !== 'string' ||
+    typeof candidate.ipnsName !== 'string' ||
+    typeof candidate.contentCid !== 'string' ||
+    typeof candidate.digest !== 'string' ||
+    !candidate.config || typeof candidate.config !== 'object' || Array.isArray(candidate.config) ||
+    !Array.isArray(candidate.changes)
+  ) {
+    return { error: 'The proposal is missing required fields' };
+  }
+  if (!isValidBase(candidate.base)) {
+    return { error: 'The proposal base must be null or a CID with a decimal sequence' };
+  }
+
+  const { digest, ...unsigned } = candidate as PublishProposal;
+  if (await computeDigest(unsigned) !== digest) {
+    return { error: 'The proposal was modified after it was created (digest mismatch)' };
+  }
+
+  return { proposal: candidate as PublishProposal };
+}
+
+/**
+ * Check that the proposed content hashes to the CID the editor announced
+ */
+export async function verifyProposalContent(proposal: PublishProposal, pinningSettings: PinningSettings): Promise<{ matches: boolean; cid: string }> {
+  const cid = await computeConfigCID(proposal.config, pinningSettings);
+  return { matches: cid === proposal.contentCid, cid };
+}
@@ -0,0 +1,103 @@
+/**
+ * Storage Service
+ * Minimal promise wrapper around the app's IndexedDB database
+ */
+
+interface StoreDefinition {
+  options: IDBObjectStoreParameters;
+  indexes?: { name: string; keyPath: string | string[] }[];
+}
+
+const DB_NAME = 'variables-ui';
+// Bump whenever a store or index is added below
+const DB_VERSION = 3;
+
+const STORES: Record<string, StoreDefinition> = {
+  history: {
+    options: { keyPath: 'id', autoIncrement: true },
+    indexes: [{ name: 'ipnsName', keyPath: 'ipnsName' }]
+  },
+  keystore: {
+    options: { keyPath: 'id' }
+  },
+  drafts: {
+    options: { keyPath: 'ipnsName' }
+  }
+};
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is usable in this runtime
+ */
+export function isStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Open (and create or upgrade) the database once per session
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!isStorageAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      const transaction = request.transaction as IDBTransaction;
+
+      for (const [name, definition] of Object.entries(STORES)) {
+        const store = db.objectStoreNames.contains(name)
+          ? transaction.objectStore(name)
+          : db.createObjectStore(name, definition.options);
+
+        for (const index of definition.indexes ?? []) {
+          if (!store.indexNames.contains(index.name)) {
+            store.createIndex(index.name, index.keyPath);
+          }
+        }
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  }).catch((error) => {
+    databasePromise = null;
+    throw error;
+  });
+
+  return databasePromise;
+}
+
+/**
+ * Run a single request against an object store and resolve with its result
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const result = await promisifyRequest(run(transaction.objectStore(storeName)));
+
+  if (mode === 'readwrite') {
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  return result;
+}
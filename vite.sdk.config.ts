@@ -0,0 +1,20 @@
+import path from "path"
+import { defineConfig } from "vite"
+
+// Library build of the consumer SDK into the sdk/ package; run `tsc -p tsconfig.sdk.json` afterwards for the type declarations
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: "sdk/dist",
+    emptyOutDir: true,
+    lib: {
+      entry: path.resolve(__dirname, "./src/sdk/index.ts"),
+      formats: ["es"],
+      fileName: "index",
+    },
+    rollupOptions: {
+      // Dependencies come from sdk/package.json, react from the consuming app
+      external: (id) => !id.startsWith(".") && !path.isAbsolute(id),
+    },
+  },
+})